@@ -0,0 +1,189 @@
+/**
+ * simulsolve — the problem engine from the command line (npm run cli -- <command> [options]).
+ *
+ *   generate  JSON array of { problem, answer } with blank answers to fill in
+ *   check     grade a file in that shape ("-" reads stdin); prints one JSON result per item
+ *   drill     practise in the terminal; "q" at any prompt stops
+ *   verify    sweep every kind and check each generated system (npm test)
+ *
+ * Options: --mode 2x2|3x3|lin-quad|lin-circle  --difficulty easy|medium|hard  --answers integers|fractions
+ *          --count N  --seed 4K9QZA  --classify  --method elimination|substitution|cramer|inverse|gauss-jordan  --steps
+ */
+import { readFileSync } from "node:fs";
+import { createInterface } from "node:readline";
+import { parseArgs } from "node:util";
+import {
+  ANSWER_TYPES, DIFFICULTIES, KIND_LABEL, METHOD_LABEL, MODES, PAIR_KEYS, encodeSessionCode, explainSteps, gradeAnswer, isObj, isStr, kindText, oneOf,
+  problemFaults, problemFromJSON, problemToJSON, randomSeed, readStoredProblem, serveProblem, solutionText,
+} from "../src/engine.ts";
+import type { AnswerType, Difficulty, Mode, Problem, SessionConfig, SolveMethod, SystemKind } from "../src/engine.ts";
+
+const USAGE = "usage: simulsolve generate|check <file>|drill|verify [--mode 2x2] [--difficulty medium] [--answers fractions] [--count N] [--seed S] [--classify] [--method elimination] [--steps]";
+
+function usage(problem: string): never {
+  console.error(`${problem}\n${USAGE}`);
+  process.exit(2);
+}
+
+/** ===== Options ===== */
+const { values: opt, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    mode: { type: "string", default: "2x2" }, difficulty: { type: "string", default: "medium" }, answers: { type: "string", default: "fractions" },
+    count: { type: "string" }, seed: { type: "string" }, method: { type: "string", default: "elimination" },
+    classify: { type: "boolean", default: false }, steps: { type: "boolean", default: false },
+  },
+});
+
+function pick<T extends string>(name: string, value: string, allowed: readonly string[]): T {
+  if(!allowed.includes(value)) usage(`--${name} must be one of ${allowed.join(", ")}`);
+  return value as T;
+}
+function countOption(fallback: number){
+  const n = opt.count===undefined ? fallback : Number(opt.count);
+  if(!Number.isInteger(n) || n<1 || n>10000) usage("--count must be a whole number from 1 to 10000");
+  return n;
+}
+function seedOption(){
+  if(opt.seed===undefined) return randomSeed();
+  if(!/^[0-9a-z]{1,6}$/i.test(opt.seed)) usage("--seed is up to six letters and digits, as in a session code");
+  return parseInt(opt.seed, 36);
+}
+function configOption(): SessionConfig {
+  return {
+    minutes: 10, mode: pick<Mode>("mode", opt.mode, MODES), difficulty: pick<Difficulty>("difficulty", opt.difficulty, DIFFICULTIES),
+    ansType: pick<AnswerType>("answers", opt.answers, ANSWER_TYPES), method: pick<SolveMethod>("method", opt.method, Object.keys(METHOD_LABEL)), classify: opt.classify,
+  };
+}
+
+/** ===== Commands ===== */
+/** Blank answer fields in the shape gradeAnswer reads: one per variable, or an (x, y) pair per possible intersection. */
+function blankAnswer(p: Problem): Record<string, string> {
+  const keys = p.curve ? PAIR_KEYS.flat() : p.variables;
+  return Object.fromEntries(keys.map(k=>[k, ""]));
+}
+
+function generate(){
+  const cfg = configOption(), count = countOption(10), seed = seedOption();
+  const items = Array.from({length: count}, (_,i)=>{
+    const p = serveProblem(cfg, seed, i, 0);
+    return { problem: problemToJSON(p), answer: blankAnswer(p), ...(p.kind!==undefined ? { claim: null } : {}), ...(opt.steps ? { steps: explainSteps(p, cfg.method) } : {}) };
+  });
+  console.log(JSON.stringify(items, null, 1));
+  console.error(`code ${encodeSessionCode({ ...cfg, format: "sprint", sprintCount: Math.min(count, 50) }, seed)}`);
+}
+
+type CheckResult = { index: number; ok: boolean; unsimplified?: boolean; correct?: string; feedback: string[] } | { index: number; error: string };
+function check(path: string | undefined){
+  if(!path) usage("check needs a file (or - for stdin)");
+  const raw: unknown = JSON.parse(readFileSync(path==="-" ? 0 : path, "utf8"));
+  if(!Array.isArray(raw)) usage("the answer file must be a JSON array of { problem, answer, claim? }");
+  const results: CheckResult[] = raw.map((item, index)=>{
+    const errs: string[] = [];
+    const stored = isObj(item) ? readStoredProblem(errs, `[${index}].problem`, item.problem, { difficulty: "medium", ansType: "fractions" }) : null;
+    if(!isObj(item) || !stored) return { index, error: errs[0] ?? `[${index}]: expected an object` };
+    if(!isObj(item.answer) || !Object.values(item.answer).every(isStr)) return { index, error: `[${index}].answer: expected an object of strings` };
+    if(item.claim!==undefined && item.claim!==null && !oneOf(Object.keys(KIND_LABEL))(item.claim)) return { index, error: `[${index}].claim: expected unique, none or infinite` };
+    const g = gradeAnswer(problemFromJSON(stored), item.answer as Record<string, string>, (item.claim ?? null) as SystemKind | null);
+    if("error" in g) return { index, error: g.error };
+    return { index, ok: g.ok, ...(g.unsimplified ? { unsimplified: true } : {}), ...(g.ok ? {} : { correct: g.correctText }), feedback: g.feedback };
+  });
+  console.log(JSON.stringify(results, null, 1));
+  if(results.some(r=>"error" in r)) process.exitCode = 1;
+}
+
+/** Reads one answer line by line (so piped input works too); null when the learner quits or input ends. */
+async function askAnswer(lines: AsyncIterator<string>, p: Problem): Promise<{ answer: Record<string, string>; claim: SystemKind | null } | null> {
+  const ask = async (q: string) => {
+    process.stdout.write(q);
+    const next = await lines.next();
+    return next.done || next.value.trim().toLowerCase()==="q" ? null : next.value.trim();
+  };
+  let claim: SystemKind | null = null;
+  if(p.kind!==undefined){
+    const said = await ask("Solutions — one, none or infinite? "); if(said===null) return null;
+    claim = said.startsWith("n") ? "none" : said.startsWith("i") ? "infinite" : "unique";
+    if(claim==="none") return { answer: {}, claim };
+    if(claim==="infinite") console.log("  Write each variable in terms of t, e.g. 3 - 2t.");
+  }
+  if(p.curve){
+    const t = await ask("Intersections, e.g. (1, 2), (-1/2, 3), or none: "); if(t===null) return null;
+    if(/^none$/i.test(t)) return { answer: {}, claim: "none" };
+    const pairs = [...t.matchAll(/\(\s*([^,()]+?)\s*,\s*([^,()]+?)\s*\)/g)].slice(0, PAIR_KEYS.length);
+    return { answer: Object.fromEntries(pairs.flatMap((m,i)=>[[PAIR_KEYS[i][0], m[1]], [PAIR_KEYS[i][1], m[2]]])), claim };
+  }
+  const answer: Record<string, string> = {};
+  for(const v of p.variables){ const t = await ask(`  ${v} = `); if(t===null) return null; answer[v] = t; }
+  return { answer, claim };
+}
+
+async function drill(){
+  const cfg = configOption(), count = countOption(10), seed = seedOption();
+  const rl = createInterface({ input: process.stdin }), lines = rl[Symbol.asyncIterator]();
+  let done = 0, correct = 0, seconds = 0;
+  console.log(`${kindText(cfg)}${cfg.classify ? ", classify" : ""} — ${count} problems, code ${encodeSessionCode({ ...cfg, format: "sprint", sprintCount: Math.min(count, 50) }, seed)}`);
+  drilling: for(let i=0; i<count; i++){
+    const p = serveProblem(cfg, seed, i, 0), start = Date.now();
+    console.log(`\nProblem ${i+1} of ${count}`);
+    p.display.forEach((line,j)=>console.log(`  Eq(${j+1}): ${line}`));
+    for(;;){
+      const got = await askAnswer(lines, p);
+      if(!got) break drilling;
+      const g = gradeAnswer(p, got.answer, got.claim);
+      if("error" in g){ console.log(`  ${g.error}`); continue; }
+      done++; seconds += (Date.now() - start)/1000;
+      if(g.ok) correct++;
+      console.log(g.ok ? "  Correct." : `  ${g.unsimplified ? "Not simplified" : "Wrong"} — ${g.correctText}`);
+      for(const line of g.feedback) console.log(`  ${line}`);
+      if(!g.ok && opt.steps) for(const line of explainSteps(p, cfg.method)) console.log(`    ${line}`);
+      break;
+    }
+  }
+  rl.close();
+  console.log(`\n${correct}/${done} correct${done>0 ? `, ${(seconds/done).toFixed(1)}s average` : ""}`);
+}
+
+/**
+ * Generates --count problems (default 200) of every mode, difficulty and answer type, with and without
+ * classify, plus every adaptive level, and runs problemFaults on each. Linear fraction batches must also
+ * contain fractional answers (circle problems always meet at lattice points, so they are exempt).
+ */
+function verify(){
+  const count = countOption(200), seed = seedOption();
+  const batches: { name: string; cfg: SessionConfig; level: number }[] = [];
+  for(const mode of MODES as Mode[]) for(const difficulty of DIFFICULTIES) for(const ansType of ANSWER_TYPES) for(const classify of [false, true])
+    if(!classify || mode==="2x2" || mode==="3x3") batches.push({ name: `${kindText({ mode, difficulty, ansType })}${classify ? " classify" : ""}`, cfg: { minutes: 10, mode, difficulty, ansType, method: "elimination", classify }, level: 0 });
+  for(let level=0; level<=10; level++) batches.push({ name: `adaptive level ${level}`, cfg: { minutes: 10, mode: "2x2", difficulty: "medium", ansType: "fractions", method: "elimination", adaptive: true }, level });
+  let failed = 0;
+  for(const b of batches){
+    const faults: string[] = [];
+    let fractional = 0;
+    for(let i=0; i<count; i++){
+      const p = serveProblem(b.cfg, seed, i, b.level);
+      faults.push(...problemFaults(p).map(f=>`#${i} ${p.id}: ${f}`));
+      if(/\d\/\d/.test(solutionText(p))) fractional++;
+    }
+    if(!b.cfg.adaptive && b.cfg.ansType==="fractions" && b.cfg.mode!=="lin-circle" && fractional===0) faults.push("no fractional answers in a fractions batch");
+    if(faults.length>0) failed++;
+    console.log(`${faults.length>0 ? "FAIL" : "ok  "} ${b.name}: ${count} problems`);
+    for(const f of faults.slice(0, 5)) console.log(`       ${f}`);
+  }
+  console.log(`\n${batches.length - failed}/${batches.length} batches passed (seed ${seed.toString(36).toUpperCase()})`);
+  if(failed>0) process.exitCode = 1;
+}
+
+/** ===== Entry ===== */
+async function main(){
+  const [command, ...args] = positionals;
+  switch(command){
+    case "generate": return generate();
+    case "check": return check(args[0]);
+    case "drill": return drill();
+    case "verify": return verify();
+    default: usage(command ? `unknown command "${command}"` : "no command given");
+  }
+}
+main().catch((e: unknown)=>{
+  console.error(e instanceof Error ? e.message : e);
+  process.exitCode = 1;
+});
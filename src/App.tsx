@@ -1,209 +1,638 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
-import { Calculator, AlarmClock, Play, Pause, RotateCcw, Sparkles, CheckCircle2, XCircle, StopCircle, Clock } from "lucide-react";
+import { Calculator, AlarmClock, Play, Pause, RotateCcw, Sparkles, CheckCircle2, XCircle, StopCircle, Clock, Lightbulb, UserCircle, ListChecks, Keyboard, Swords, Trophy } from "lucide-react";
+import {
+  ADAPT, ADAPT_START, ANSWER_TYPES, DIFFICULTIES, DUEL_LAYOUT_LABEL, FORMAT_LABEL, HINT_LEVELS, KIND_LABEL, METHOD_LABEL, MISTAKE_LABEL, MODES, MODE_LABEL, PAIR_KEYS,
+  PRESENT_LABEL, SCRATCH_OP_LABEL, SURVIVAL_LIVES, adaptLevel, adjustedSeconds, answerText, attemptPoints, augmentedRows, checkScratch, checkShape, clamp, componentStats, configText, countMistakes,
+  decodeSessionCode, dueReviews, duelResult, duelStanding, encodeSessionCode, explainSteps, formatFinished, formatText, freshRating, genProblem, gradeAnswer, gradeRref, hintText, isBool,
+  isList, isNum, isObj, isStr, kindText, livesLost, mixKey, mixShare, mixText, oneOf, paramText, parseAnswer, pickNextProblem, problemFromJSON,
+  problemRating, problemToJSON, randomSeed, rateAttempt, readStoredProblem, recommendMethod, rrefKey, scheduleMiss, schedulePass, scratchOpText, serveProblem, solutionText,
+  solveProblem, workedRoute,
+} from "./engine.ts";
+import type {
+  AnswerType, AttemptRecord, Difficulty, DuelLayout, LearnerRating, LifetimeStats, MistakeKind, MixComponent, MixPreset, Mode, PauseStats, Presentation, Problem, ReviewAs,
+  ReviewItem, ReviewMode, ScratchOp, ScratchStep, SessionConfig, SessionFormat, SessionSummary, SolveMethod, Spec, StoredProblem, SystemKind,
+} from "./engine.ts";
 
 /** ===== Typography for exam-like equations ===== */
 const examFont = { fontFamily: 'Cambria, Georgia, "Times New Roman", ui-serif, serif' } as React.CSSProperties;
 
+/** ===== Equations as MathML ===== */
+// Engine text ("3x - 2 = 5y + 7", "y = 2x² - 1", "(1/2)R1") is typeset as MathML, labelled with the way it is read aloud.
+// React has no MathML element types, so the nodes are built with createElement.
+const MATH_TOKEN = /(\d+(?:\.\d+)?)\/(\d+(?:\.\d+)?)|\d+(?:\.\d+)?|R\d+|[a-zA-Z]|⁻¹|[²ᵀ₁₂]|[-−+=×·÷()[\]|;,:√→↔≠±]|\s+/g;
+const MATH_SAY: Record<string, string> = {
+  "+":"plus", "=":"equals", "×":"times", "·":"times", "÷":"divided by", "(":"open bracket", ")":"close bracket", "[":"matrix", "]":"end matrix",
+  "|":"bar", ";":"next row", ",":",", ":":":", "√":"square root of", "→":"gives", "↔":"swaps with", "≠":"is not equal to", "±":"plus or minus",
+  "²":"squared", "⁻¹":"inverse", "ᵀ":"transpose", "₁":"sub 1", "₂":"sub 2",
+};
+const ml = (tag: string, ...kids: React.ReactNode[]) => React.createElement(tag, null, ...kids);
+/** MathML nodes for one run of maths, and the same run as spoken words. */
+function mathParts(text: string){
+  const nodes: React.ReactNode[] = [], words: string[] = [], opens: number[] = [];
+  let prev = "";   // last token, to tell a unary minus from subtraction
+  for(const m of text.matchAll(MATH_TOKEN)){
+    const tok = m[0];
+    if(/^\s/.test(tok)){
+      // a space between two values (matrix entries) is kept, and makes a following minus a sign
+      const gap = /[\w)²]$/.test(prev) && /^[-−]?\d/.test(text.slice(m.index + tok.length));
+      if(gap){ nodes.push(React.createElement("mspace", { width: "0.8em" })); prev = " "; }
+      continue;
+    }
+    if(m[1]!==undefined){ nodes.push(ml("mfrac", ml("mn", m[1]), ml("mn", m[2]))); words.push(`${m[1]} over ${m[2]}`); }
+    else if(/^\d/.test(tok)){ nodes.push(ml("mn", tok)); words.push(tok); }
+    else if(/^R\d/.test(tok)){ nodes.push(ml("msub", ml("mi", "R"), ml("mn", tok.slice(1)))); words.push(`row ${tok.slice(1)}`); }
+    else if(/^[a-zA-Z]$/.test(tok)){ nodes.push(ml("mi", tok)); words.push(tok); }
+    else if(/^(⁻¹|[²ᵀ₁₂])$/.test(tok)){
+      const base = nodes.pop() ?? ml("mrow");
+      const script = tok==="⁻¹" ? ml("mrow", ml("mo", "−"), ml("mn", "1")) : tok==="ᵀ" ? ml("mi", "T") : ml("mn", tok==="²" ? "2" : tok==="₁" ? "1" : "2");
+      nodes.push(ml(tok==="₁" || tok==="₂" ? "msub" : "msup", base, script)); words.push(MATH_SAY[tok]);
+    }
+    else if(tok==="(" || tok===")"){
+      // a bracketed group becomes one row, so a following ² squares all of it
+      const at = tok===")" ? opens.pop() : undefined;
+      if(tok==="(") opens.push(nodes.length);
+      nodes.push(ml("mo", tok)); words.push(MATH_SAY[tok]);
+      if(at!==undefined) nodes.push(ml("mrow", ...nodes.splice(at)));
+    }
+    else if(tok==="-" || tok==="−"){ nodes.push(ml("mo", "−")); words.push(prev==="" || /^[-−+=×·÷([|;,:→↔≠± ]$/.test(prev) ? "negative" : "minus"); }
+    else { nodes.push(ml("mo", tok)); words.push(MATH_SAY[tok] ?? tok); }
+    prev = tok;
+  }
+  return { nodes, spoken: words.join(" ").replace(/ ([,:])/g, "$1") };
+}
+/** An equation (or value) typeset as MathML. */
+function MathText({text}:{text:string}) {
+  const { nodes, spoken } = mathParts(text);
+  return React.createElement("math", { alttext: spoken, "aria-label": spoken }, ml("mrow", ...nodes));
+}
+const MATH_WORD = /^[\d./()[\]|;,:=+\-−×·÷²⁻¹ᵀ√→↔≠±xyztsABXID]+$|^\(?[\d/]*\)?R\d+:?$/;
+/** A worked step or hint: runs of maths inside the sentence are typeset, the words around them stay text. */
+function StepText({text}:{text:string}) {
+  const words = text.split(" ");
+  const kind = words.map(w=>!MATH_WORD.test(w) ? "text" : /[\dA-Za-z=]/.test(w) ? "math" : "op");   // a lone operator joins the maths beside it
+  const runs: { math: boolean; text: string }[] = [];
+  words.forEach((word,i)=>{
+    const math = kind[i]==="math" || (kind[i]==="op" && (kind[i-1]==="math" || kind[i+1]==="math")), last = runs[runs.length-1];
+    if(last && last.math===math) last.text += ` ${word}`; else runs.push({ math, text: word });
+  });
+  return <>{runs.map((r,i)=>(<React.Fragment key={i}>{i>0 && " "}{r.math ? <MathText text={r.text}/> : r.text}</React.Fragment>))}</>;
+}
+
 /** ===== Types ===== */
-type Difficulty = "easy" | "medium" | "hard";
-type Mode = "2x2" | "3x3";
-type AnswerType = "integers" | "fractions";
-
-interface EquationStd { a: number; b: number; c: number; d: number; } // ax + by (+ cz) = d
-interface Problem {
-  id: string;
-  mode: Mode;
-  variables: ("x" | "y" | "z")[];
-  eqs: EquationStd[];
-  display: string[];
-}
-interface LifetimeStats { totalAttempts: number; totalCorrect: number; totalTimeSec: number; }
 interface ExplainState { reasons: string[]; steps: string[]; correctText?: string; }
+type SessionPhase = "setup" | "active" | "summary" | "detail" | "analytics" | "worksheet" | "duel";
+/** The scratchpad's add-step form; `row` and `other` are step indexes (R1 = 0), `other` doubles as the substitute source. */
+type ScratchDraft = { op: ScratchOp["op"]; eq: number; row: number; other: number; k: string; typed: string };
+const SCRATCH_DRAFT: ScratchDraft = { op: "rearrange", eq: 0, row: 0, other: 0, k: "", typed: "" };
+function draftStep(d: ScratchDraft): ScratchStep {
+  switch(d.op){
+    case "rearrange": return { op: d.op, eq: d.eq, typed: d.typed };
+    case "scale": return { op: d.op, row: d.row, k: d.k, typed: d.typed };
+    case "combine": return { op: d.op, row: d.row, k: d.k, other: d.other, typed: d.typed };
+    case "substitute": return { op: d.op, row: d.row, from: d.other, typed: d.typed };
+  }
+}
 
-type AttemptRecord = {
-  ts: number;             // per-attempt timestamp
-  seconds: number;        // time taken for that attempt
-  correct: boolean;
-  difficulty: Difficulty;
-  mode: Mode;
-};
+/** ===== Worksheets (print and LaTeX) ===== */
+// A sheet is problems 0…N−1 of a seeded config, so its code (the sprint code for N problems) regenerates it exactly.
+type Worksheet = { title: string; cfg: SessionConfig; problems: Problem[] };
+const WORKSHEET_COUNT = { min: 3, max: 40 };
+function buildWorksheet(cfg: SessionConfig, count: number, title: string): Worksheet {
+  const seed = cfg.seed ?? randomSeed();
+  const sheet: SessionConfig = { ...cfg, format: "sprint", sprintCount: count, adaptive: false, lowestTerms: false, rref: false, review: "off", seed };
+  return { title, cfg: sheet, problems: Array.from({length: count}, (_,i)=>serveProblem(sheet, seed, i, 0)) };
+}
+const worksheetCode = (ws: Worksheet) => encodeSessionCode(ws.cfg, ws.cfg.seed ?? 0);
+/** Matrix presentations apply to linear systems; a line and curve is always shown as equations. */
+const matrixShown = (cfg: SessionConfig, p: Problem) => !p.curve && (cfg.present ?? "equations")!=="equations";
+/** Labels for the answer boxes: one per variable, or one per possible intersection point. */
+const answerBlanks = (p: Problem) => p.curve ? PAIR_KEYS.map(()=>"(x, y) =") : p.variables.map(v=>`${v} =`);
 
-type SessionPhase = "setup" | "active" | "summary";
+const TEX_SYMBOL: Record<string, string> = {
+  "²":"^2", "·":"\\cdot ", "×":"\\times ", "−":"-", "≠":"\\neq ", "±":"\\pm ", "→":"\\to ", "↔":"\\leftrightarrow ", "÷":"\\div ", "₁":"_1", "₂":"_2",
+  "⁻¹":"^{-1}", "√":"\\surd ", "ᵀ":"^T", "α":"\\alpha ", "β":"\\beta ", "Σ":"\\Sigma ",
+};
+const TEX_SYMBOLS = new RegExp(Object.keys(TEX_SYMBOL).sort((a,b)=>b.length-a.length).join("|"), "g");
+/** An equation as LaTeX math; `align` makes its "=" the alignment point. */
+function texMath(s: string, align = false){
+  const t = s.replace(TEX_SYMBOLS, m=>TEX_SYMBOL[m]).replace(/(\d+)\/(\d+)/g, "\\frac{$1}{$2}");
+  return align ? t.replace(" = ", " &= ") : t;
+}
+const TEX_TEXT: Record<string, string> = { "\\":"\\textbackslash{}", "^":"\\^{}", "~":"\\~{}", "—":"---", "–":"--", "“":"``", "”":"''", "…":"\\ldots{}", "•":"\\textbullet{}" };
+/** Prose (answers, worked steps) for LaTeX text mode: specials escaped, maths symbols set inline. */
+function texText(s: string){
+  return s.replace(/[\\{}$&#%_^~—–“”…•]/g, c=>TEX_TEXT[c] ?? `\\${c}`).replace(TEX_SYMBOLS, m=>`$${TEX_SYMBOL[m]}$`);
+}
+/** [A | b] or AX = B as LaTeX arrays. */
+function texMatrix(p: Problem, present: Presentation){
+  const rows = augmentedRows(p), n = p.variables.length;
+  const arr = (cells: (number | string)[][], spec: string) => `\\left[\\begin{array}{${spec}}${cells.map(r=>r.join(" & ")).join(" \\\\ ")}\\end{array}\\right]`;
+  return present==="augmented" ? arr(rows, `${"r".repeat(n)}|r`)
+    : `${arr(rows.map(r=>r.slice(0, n)), "r".repeat(n))}${arr(p.variables.map(v=>[v]), "c")} = ${arr(rows.map(r=>[r[n]]), "r")}`;
+}
+/** The sheet, then the answer key on a new page (with worked steps when asked), as one LaTeX document. */
+function worksheetTex(ws: Worksheet, steps: boolean, method: SolveMethod){
+  const head = (suffix: string) => [`\\section*{${texText(ws.title)}${suffix}}`, `\\noindent ${texText(configText(ws.cfg))} \\hfill Code: \\texttt{${worksheetCode(ws)}}`, ""];
+  const problems = ws.problems.map(p=>[
+    `  \\item $${matrixShown(ws.cfg, p) ? texMatrix(p, ws.cfg.present!) : `\\begin{aligned}${p.display.map(l=>texMath(l, true)).join(" \\\\ ")}\\end{aligned}`}$`,
+    `    \\par\\medskip ${answerBlanks(p).map(b=>`\\fbox{\\rule{0pt}{1.8em}${texText(b)}\\hspace{8em}}`).join(" \\quad ")}\\bigskip`,
+  ].join("\n"));
+  const key = ws.problems.map(p=>[
+    `  \\item ${texText(solutionText(p))}`,
+    ...(steps ? ["    \\begin{itemize}\\footnotesize", ...explainSteps(p, method).map(t=>`      \\item ${texText(t)}`), "    \\end{itemize}"] : []),
+  ].join("\n"));
+  return [
+    "\\documentclass[11pt]{article}", "\\usepackage[T1]{fontenc}", "\\usepackage[margin=2cm]{geometry}", "\\usepackage{amsmath}", "\\pagestyle{empty}",
+    "\\begin{document}",
+    ...head(""), "Name: \\rule{6cm}{0.4pt}", ...(ws.cfg.classify ? ["", "Some systems have no solution or infinitely many; say which."] : []), "",
+    "\\begin{enumerate}", ...problems, "\\end{enumerate}",
+    "\\newpage",
+    ...head(" --- answer key"), "\\begin{enumerate}", ...key, "\\end{enumerate}",
+    "\\end{document}", "",
+  ].join("\n");
+}
 
-type SessionConfig = {
-  minutes: number;
-  mode: Mode;
-  difficulty: Difficulty;
-  ansType: AnswerType;
+/** ===== Keyboard shortcuts ===== */
+// Every action on the active screen has a rebindable key combo, written as keyCombo writes it ("Alt+H", "Enter", "?"); "" is unbound.
+type ShortcutAction = "submit" | "hint" | "skip" | "pause" | "end" | "timer" | "resetTimer" | "scratchpad" | "answer" | "unique" | "none" | "infinite" | "help";
+type Shortcuts = Record<ShortcutAction, string>;
+const SHORTCUT_LABEL: Record<ShortcutAction, string> = {
+  submit:"Submit the answer", hint:"Take a hint", skip:"Skip to a new problem", pause:"Pause or resume the session", end:"End the session",
+  timer:"Start or stop the problem timer", resetTimer:"Reset the problem timer", scratchpad:"Show or hide the scratchpad", answer:"Go to the first answer field",
+  unique:"Solutions: exactly one", none:"Solutions: none", infinite:"Solutions: infinitely many", help:"Show or hide the shortcut list",
 };
+const DEFAULT_SHORTCUTS: Shortcuts = {
+  submit:"Enter", hint:"Alt+H", skip:"Alt+N", pause:"Alt+P", end:"Alt+E", timer:"Alt+T", resetTimer:"Alt+R", scratchpad:"Alt+K", answer:"Alt+A",
+  unique:"Alt+1", none:"Alt+2", infinite:"Alt+3", help:"?",
+};
+const MODIFIER_KEYS = ["Shift", "Control", "Alt", "Meta", "AltGraph"];
+/**
+ * The combo a key press makes. Letters and digits come from the physical key, so Alt+H on a Mac is still "Alt+H";
+ * Shift only counts with those and named keys, since it is already part of symbols like "?".
+ */
+function keyCombo(e: KeyboardEvent){
+  const physical = /^(Key[A-Z]|Digit\d)$/.test(e.code) ? e.code.slice(-1) : null;
+  const key = physical ?? (e.key===" " ? "Space" : e.key.length===1 ? e.key.toUpperCase() : e.key);
+  return [e.ctrlKey && "Ctrl", e.altKey && "Alt", e.metaKey && "Meta", e.shiftKey && (physical!==null || e.key.length>1) && "Shift", key].filter(Boolean).join("+");
+}
+
+/** ===== Clocks ===== */
+// Elapsed time comes from wall-clock timestamps, so throttled or skipped timer ticks never lose time.
+type Clock = { acc: number; since: number | null };   // seconds banked, plus the running stretch since `since` (ms)
+const CLOCK_ZERO: Clock = { acc: 0, since: null };
+const clockRead = (c: Clock, now: number) => c.acc + (c.since===null ? 0 : Math.max(0, now - c.since)/1000);
+const clockStart = (c: Clock, now: number): Clock => c.since===null ? { ...c, since: now } : c;
+const clockStop = (c: Clock, now: number): Clock => c.since===null ? c : { acc: clockRead(c, now), since: null };
 
-type SessionSummary = {
-  id: string;
-  startedAt: number;
-  durationMin: number;          // intended duration
-  actualSeconds: number;        // actual elapsed
-  attempts: number;
-  correct: number;
-  accuracyPct: number;
-  avgTimePerAttempt: number;    // seconds
-  avgTimeAdj: number;           // difficulty-adjusted seconds
-  problemsPerMin: number;
-  config: SessionConfig;
+/** ===== Duels ===== */
+// Two profiles on one device. Each player has their own answers, clock and attempts over the same problem list;
+// the finished duel goes into both histories, but ratings, review queues and lifetime totals are left alone.
+type DuelPlayer = { profileId: string; name: string; sessionId: string; problemNo: number; clock: Clock; attempts: AttemptDetail[]; last: { ok: boolean; text: string } | null };
+type Duel = {
+  cfg: SessionConfig; layout: DuelLayout; problems: Problem[]; startedAt: number; players: [DuelPlayer, DuelPlayer];
+  turn: 0 | 1;      // taking turns: whose go it is (problem by problem, first player first)
+  ready: boolean;   // taking turns: the device has been handed over and the clock is running
+  finished: boolean;
 };
+const DUEL_COUNT = { min: 3, max: 30 };
+function duelSummary(d: Duel, me: DuelPlayer, them: DuelPlayer): SessionSummary {
+  const attempts = me.attempts.length, correct = me.attempts.filter(a=>a.correct).length;
+  const actual = me.attempts.reduce((s,a)=>s+a.seconds, 0);
+  const mine = duelStanding(me.attempts), theirs = duelStanding(them.attempts);
+  const mistakes = countMistakes(me.attempts.map(a=>a.mistakes));
+  return {
+    id: me.sessionId,
+    startedAt: d.startedAt,
+    durationMin: 0,
+    actualSeconds: +actual.toFixed(1),
+    attempts,
+    correct,
+    accuracyPct: attempts ? +(100*correct/attempts).toFixed(1) : 0,
+    avgTimePerAttempt: attempts ? +(actual/attempts).toFixed(2) : 0,
+    avgTimeAdj: attempts ? +(mine.adjSeconds/attempts).toFixed(2) : 0,
+    problemsPerMin: actual>0 ? +(attempts/(actual/60)).toFixed(2) : 0,
+    config: { ...d.cfg },
+    ...(Object.keys(mistakes).length>0 ? { mistakes } : {}),
+    score: +me.attempts.reduce((s,a)=>s + attemptPoints(a), 0).toFixed(2),
+    ...(correct>=d.problems.length ? { sprintSeconds: +actual.toFixed(1) } : {}),
+    duel: { opponent: them.name, layout: d.layout, result: duelResult(mine, theirs), adjSeconds: mine.adjSeconds, opponentCorrect: theirs.correct, opponentAdjSeconds: theirs.adjSeconds },
+  };
+}
 
-/** ===== Difficulty weights (for adjusted speed metric) ===== */
-const DIFF_WEIGHT: Record<Difficulty, number> = { easy: 1.0, medium: 1.2, hard: 1.45 };
-
-/** ===== Math helpers (same logic as your code) ===== */
-const rnd = (min: number, max: number) => Math.floor(Math.random() * (max - min + 1)) + min;
-const choice = <T,>(arr: T[]) => arr[Math.floor(Math.random() * arr.length)];
-const approx = (a: number, b: number, eps = 1e-6) => Math.abs(a - b) <= eps;
-const igcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : igcd(b, a % b));
-const lcm2 = (a: number, b: number) => Math.abs(a * b) / igcd(a, b);
-const lcm3 = (a: number, b: number, c: number) => lcm2(lcm2(a, b), c);
-function simplifyFraction(num: number, den: number){ if(den<0){num=-num;den=-den;} const g=igcd(num,den); return {num:num/g, den:den/g}; }
-function fracToText(num:number, den:number){ return den===1?`${num}`:`${num}/${den}`; }
-function toRationalApprox(x:number, maxDen=12){ let bestP=0,bestQ=1,bestErr=Infinity; for(let q=1;q<=maxDen;q++){const p=Math.round(x*q); const err=Math.abs(x-p/q); if(err<bestErr){bestErr=err;bestP=p;bestQ=q;}} const s=simplifyFraction(bestP,bestQ); return `${s.num}/${s.den}`; }
-
-/** ===== Solvers (same logic) ===== */
-function solve2(e1: EquationStd, e2: EquationStd){
-  const D = e1.a*e2.b - e1.b*e2.a; if (D===0) return null;
-  const Dx = e1.d*e2.b - e1.b*e2.d; const Dy = e1.a*e2.d - e1.d*e2.a;
-  const fx = simplifyFraction(Dx, D); const fy = simplifyFraction(Dy, D);
-  return { x: Dx/D, y: Dy/D, xNum: fx.num, xDen: fx.den, yNum: fy.num, yDen: fy.den } as const;
-}
-function solve3(eq: EquationStd[]){
-  const A = eq.map(e=>[e.a,e.b,e.c,e.d]);
-  for(let c=0;c<3;c++){
-    let p=c; for(let r=c+1;r<3;r++) if(Math.abs(A[r][c])>Math.abs(A[p][c])) p=r;
-    if(Math.abs(A[p][c])<1e-12) return null; if(p!==c)[A[p],A[c]]=[A[c],A[p]];
-    for(let r=c+1;r<3;r++){ const f=A[r][c]/A[c][c]; for(let k=c;k<=3;k++) A[r][k]-=f*A[c][k]; }
-  }
-  const z=A[2][3]/A[2][2]; const y=(A[1][3]-A[1][2]*z)/A[1][1]; const x=(A[0][3]-A[0][2]*z-A[0][1]*y)/A[0][0];
-  return {x,y,z} as const;
-}
-
-/** ===== Display scrambling (same logic) ===== */
-function formatSide(ax:number, by:number, cz:number, k:number, includeZ?:boolean){
-  type Tok = { coef:number, t:"const"|"x"|"y"|"z" };
-  const toks: Tok[] = [];
-  if (k!==0) toks.push({coef:k,t:"const"});
-  if (ax!==0) toks.push({coef:ax,t:"x"});
-  if (by!==0) toks.push({coef:by,t:"y"});
-  if (includeZ && cz !== 0) toks.push({coef:cz,t:"z"});
-  if (toks.length===0) return "0";
-  let out="", first=true;
-  for(const tok of toks){
-    const sign = tok.coef<0?"-":"+"; const mag=Math.abs(tok.coef);
-    const core = tok.t==="const"?`${mag}`:`${mag===1?"":mag}${tok.t}`;
-    if(first){ out += (tok.coef<0?"- ":"") + core; first=false; } else { out += ` ${sign} ${core}`; }
-  }
-  return out;
-}
-function scrambleLinear(e: EquationStd, includeZ?:boolean){
-  const a=e.a,b=e.b,c=e.c,d=e.d;
-  const axL=rnd(-3,3), axR=axL-a; const byL=rnd(-3,3), byR=byL-b; const czL=includeZ?rnd(-3,3):0, czR=includeZ?czL-c:0; const kL=rnd(-12,12), kR=kL+d;
-  const L=formatSide(axL,byL,czL,kL,includeZ); const R=formatSide(axR,byR,czR,kR,includeZ);
-  return `${L} = ${R}`;
-}
-
-/** ===== Generators (same logic) ===== */
-function id() { return `p_${Math.random().toString(36).slice(2,9)}`; }
-
-function pickSolution2(ansType: AnswerType){
-  const pickPQ = ()=> ansType==="integers"? {p:rnd(-6,6), q:1} : {p:rnd(-12,12), q:choice([2,3,4,5,6,7,8])};
-  const sx=pickPQ(), sy=pickPQ(); return {x: sx.p/sx.q, y: sy.p/sy.q, qx:sx.q, qy:sy.q};
-}
-function pickSolution3(ansType: AnswerType){
-  const pickPQ = ()=> ansType==="integers"? {p:rnd(-4,4), q:1} : {p:rnd(-10,10), q:choice([2,3,4,5,6,7,8])};
-  const sx=pickPQ(), sy=pickPQ(), sz=pickPQ(); return {x: sx.p/sx.q, y: sy.p/sy.q, z: sz.p/sz.q, qx:sx.q, qy:sy.q, qz:sz.q};
-}
-function gen2x2(difficulty: Difficulty, ansType: AnswerType): Problem{
-  const sol = pickSolution2(ansType); const L = lcm2(sol.qx, sol.qy);
-  const base = difficulty==="easy"? [1,2,3] : difficulty==="medium"? [1,2,3,4,5] : [1,2,3,4,5,6,7];
-  let a = L*choice([-1,1])*choice(base), b = L*choice([-1,1])*choice(base);
-  let c = L*choice([-1,1])*choice(base), d = L*choice([-1,1])*choice(base);
-  if (a*d - b*c === 0) d += L;
-  const e1: EquationStd = { a, b, c: 0, d: Math.trunc(a*sol.x + b*sol.y) };
-  const e2: EquationStd = { a:c, b:d, c: 0, d: Math.trunc(c*sol.x + d*sol.y) };
-  const display = [scrambleLinear(e1,false), scrambleLinear(e2,false)];
-  return { id:id(), mode:"2x2", variables:["x","y"], eqs:[e1,e2], display };
-}
-function gen3x3(difficulty: Difficulty, ansType: AnswerType): Problem{
-  const sol = pickSolution3(ansType); const L = lcm3(sol.qx, sol.qy, sol.qz);
-  const base = difficulty==="easy"? [1,2,3] : difficulty==="medium"? [1,2,3,4] : [1,2,3,4,5];
-  const row = ()=> [L*choice([-1,1])*choice(base), L*choice([-1,1])*choice(base), L*choice([-1,1])*choice(base)];
-  let A = [row(), row(), row()];
-  const det = (M:number[][])=> M[0][0]*(M[1][1]*M[2][2]-M[1][2]*M[2][1]) - M[0][1]*(M[1][0]*M[2][2]-M[1][2]*M[2][0]) + M[0][2]*(M[1][0]*M[2][1]-M[1][1]*M[2][0]);
-  if(det(A)===0) A[2][2]+=L;
-  const rhs = [
-    Math.trunc(A[0][0]*sol.x + A[0][1]*sol.y + A[0][2]*sol.z),
-    Math.trunc(A[1][0]*sol.x + A[1][1]*sol.y + A[1][2]*sol.z),
-    Math.trunc(A[2][0]*sol.x + A[2][1]*sol.y + A[2][2]*sol.z)
-  ];
-  const e1: EquationStd = { a:A[0][0], b:A[0][1], c:A[0][2], d:rhs[0] };
-  const e2: EquationStd = { a:A[1][0], b:A[1][1], c:A[1][2], d:rhs[1] };
-  const e3: EquationStd = { a:A[2][0], b:A[2][1], c:A[2][2], d:rhs[2] };
-  const display = [scrambleLinear(e1,true), scrambleLinear(e2,true), scrambleLinear(e3,true)];
-  return { id:id(), mode:"3x3", variables:["x","y","z"], eqs:[e1,e2,e3], display };
-}
-function genProblem(mode: Mode, difficulty: Difficulty, ansType: AnswerType){ return mode==="2x2"? gen2x2(difficulty, ansType) : gen3x3(difficulty, ansType); }
-
-/** ===== Worked steps (same) ===== */
-function eqToString(e: EquationStd){
-  const left = formatSide(e.a, e.b, e.c, 0, e.c !== 0);
-  return `${left} = ${e.d}`;
-}
-function worked2x2(prob: Problem, sol: ReturnType<typeof solve2>){
-  const [e1,e2] = prob.eqs;
-  const lcmX = (e1.a===0||e2.a===0)?Infinity:lcm2(Math.abs(e1.a),Math.abs(e2.a));
-  const lcmY = (e1.b===0||e2.b===0)?Infinity:lcm2(Math.abs(e1.b),Math.abs(e2.b));
-  const eliminate = lcmX<=lcmY? 'x':'y';
-  const s: string[] = [];
-  s.push(`Start: Eq(1) ${eqToString(e1)},  Eq(2) ${eqToString(e2)}`);
-  if(eliminate==='x'){
-    const k1 = lcmX/Math.abs(e1.a), k2 = lcmX/Math.abs(e2.a), op = Math.sign(e1.a)===Math.sign(e2.a)?'-':'+'; // E1 op E2
-    const E1 = {a:e1.a*k1,b:e1.b*k1,c:0,d:e1.d*k1};
-    const E2 = {a:e2.a*k2,b:e2.b*k2,c:0,d:e2.d*k2};
-    s.push(`Make |x| match: Eq(1)×${k1} → (${E1.a})x + (${E1.b})y = ${E1.d}`);
-    s.push(`Eq(2)×${k2} → (${E2.a})x + (${E2.b})y = ${E2.d}`);
-    const By = E1.b - (op==='-'?E2.b:-E2.b);
-    const Bd = E1.d - (op==='-'?E2.d:-E2.d);
-    s.push(`Eliminate x: Eq(1) ${op} Eq(2) → (${By})y = ${Bd}`);
-    const yS = simplifyFraction(Bd, By); s.push(`y = ${fracToText(yS.num, yS.den)}`);
-    s.push(`Back-sub into Eq(1) for x (exact below).`);
-  } else {
-    const k1 = lcmY/Math.abs(e1.b), k2 = lcmY/Math.abs(e2.b), op = Math.sign(e1.b)===Math.sign(e2.b)?'-':'+'; // E1 op E2
-    const E1 = {a:e1.a*k1,b:e1.b*k1,c:0,d:e1.d*k1};
-    const E2 = {a:e2.a*k2,b:e2.b*k2,c:0,d:e2.d*k2};
-    s.push(`Make |y| match: Eq(1)×${k1} → (${E1.a})x + (${E1.b})y = ${E1.d}`);
-    s.push(`Eq(2)×${k2} → (${E2.a})x + (${E2.b})y = ${E2.d}`);
-    const Bx = E1.a - (op==='-'?E2.a:-E2.a);
-    const Bd = E1.d - (op==='-'?E2.d:-E2.d);
-    s.push(`Eliminate y: Eq(1) ${op} Eq(2) → (${Bx})x = ${Bd}`);
-    const xS = simplifyFraction(Bd, Bx); s.push(`x = ${fracToText(xS.num, xS.den)}`);
-    s.push(`Back-sub into Eq(1) for y (exact below).`);
-  }
-  if(sol){
-    s.push(`Exact: x = ${fracToText(sol.xNum, sol.xDen)}, y = ${fracToText(sol.yNum, sol.yDen)}`);
-  }
-  return s;
+/** One player's board: their current problem and answer fields. Enter in a field submits; `onSubmit` returns an error to show, or null. */
+function DuelSide({p, cfg, onSubmit}:{p: Problem; cfg: SessionConfig; onSubmit: (answer: Record<string,string>, claim: SystemKind | null) => string | null}) {
+  const [answer, setAnswer] = useState<Record<string,string>>({});
+  const [claim, setClaim] = useState<SystemKind | null>(null);
+  const [err, setErr] = useState("");
+  const submit = () => setErr(onSubmit(answer, claim) ?? "");
+  const field = (key: string, label: string, placeholder: string) => (
+    <input key={key} value={answer[key] ?? ""} onChange={e=>{ setAnswer(a=>({ ...a, [key]: e.target.value })); setErr(""); }} onKeyDown={e=>{ if(e.key==="Enter") submit(); }}
+      aria-label={label} placeholder={placeholder} className="w-full px-2 py-1.5 rounded-lg bg-black/30 border border-neutral-800 font-mono focus:ring-2 focus:ring-blue-500"/>
+  );
+  const pick = (k: SystemKind) => (
+    <button key={k} onClick={()=>setClaim(claim===k ? null : k)} aria-pressed={claim===k} className={`px-2 py-1 rounded-lg border ${claim===k ? "border-blue-400/60 bg-blue-500/15 text-blue-200" : "border-neutral-800 hover:bg-black/30"}`}>{p.curve ? "No real solutions" : KIND_LABEL[k]}</button>
+  );
+  return (
+    <div className="space-y-3">
+      {matrixShown(cfg, p)
+        ? <div className="bg-black/30 border border-neutral-800 rounded-lg px-3 py-3 font-serif text-lg" style={examFont}><MatrixView p={p} present={cfg.present!}/></div>
+        : <div className="space-y-1 font-serif text-lg" style={examFont}>
+            {p.display.map((line, i)=>(<div key={i} className="bg-black/30 border border-neutral-800 rounded-lg px-3 py-1.5">Eq({i+1}): <MathText text={line}/></div>))}
+          </div>}
+      {p.kind!==undefined && <div className="flex flex-wrap gap-2 text-sm">{(Object.keys(KIND_LABEL) as SystemKind[]).map(pick)}</div>}
+      {p.curve && <div className="flex text-sm">{pick("none")}</div>}
+      {p.curve && claim!=="none" && PAIR_KEYS.map(([kx, ky], i)=>(
+        <div key={i} className="flex items-center gap-2 font-mono">({field(kx, `x of point ${i+1}`, "x")},{field(ky, `y of point ${i+1}`, "y")})</div>
+      ))}
+      {!p.curve && (p.kind===undefined || claim==="unique" || claim==="infinite") && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          {p.variables.map(v=>(<label key={v} className="flex items-center gap-2 text-sm"><span className="text-neutral-300">{v} =</span>{field(v, v, claim==="infinite" ? "3 - 2t" : "")}</label>))}
+        </div>
+      )}
+      <div className="flex items-center gap-3">
+        <button onClick={submit} className="px-4 py-2 rounded-xl border border-blue-400/50 bg-blue-500/10 hover:bg-blue-500/20 text-blue-200 flex items-center gap-2"><CheckCircle2 className="w-4 h-4"/> Submit</button>
+        {err && <span role="alert" className="text-xs text-red-400">{err}</span>}
+      </div>
+    </div>
+  );
 }
 
 /** ===== Storage helpers ===== */
+// Learner profiles share the device. Per-profile keys get an "@id" suffix; the default profile keeps
+// the bare keys, so data saved before profiles existed simply belongs to it.
+type Profile = { id: string; name: string; createdAt: number; config?: SessionConfig };   // config: setup defaults
+type ProfileList = { active: string; list: Profile[] };
+const DEFAULT_PROFILE = "default";
+const DEFAULT_SETUP: SessionConfig = { minutes: 10, format: "timed", mode: "2x2", difficulty: "medium", ansType: "fractions", method: "elimination", adaptive: false, review: "mix", reviewAs: "fresh", classify: false, lowestTerms: false, present: "equations", rref: false };
+const PROFILE_KEYS = ["simulsolve:min:stats", "simulsolve:review", "simulsolve:rating", "simulsolve:checkpoint"];
+let activeProfile = DEFAULT_PROFILE;   // whose data the helpers below read and write
+const profileKey = (base: string, id = activeProfile) => id===DEFAULT_PROFILE ? base : `${base}@${id}`;
+function selectProfile(id: string){ activeProfile = id; }
+function loadProfiles(): ProfileList {
+  try{
+    const s=localStorage.getItem("simulsolve:profiles");
+    if(s){
+      const v=JSON.parse(s);
+      if(isObj(v) && isStr(v.active) && Array.isArray(v.list)){
+        const list = v.list.flatMap((raw,i)=>{ const p = readProfile([], `profiles[${i}]`, raw); return p ? [p] : []; });
+        if(list.some(p=>p.id===v.active)) return { active: v.active, list };
+      }
+    }
+  }catch{ /* corrupt or unavailable: just the default profile */ }
+  return { active: DEFAULT_PROFILE, list: [{ id: DEFAULT_PROFILE, name: "Default", createdAt: 0 }] };
+}
+function saveProfiles(v: ProfileList){
+  try{ localStorage.setItem("simulsolve:profiles", JSON.stringify(v)); }catch{ /* quota or private mode */ }
+}
+/** Drops everything a profile stored: its keyed entries and its history database. */
+async function deleteProfileData(id: string){
+  try{ for(const k of PROFILE_KEYS) localStorage.removeItem(profileKey(k, id)); }catch{ /* unavailable */ }
+  await deleteHistory(id);
+}
 function loadLifetime(): LifetimeStats {
-  try{ const s=localStorage.getItem("simulsolve:min:stats"); if(s) return JSON.parse(s);}catch{}
+  try{ const s=localStorage.getItem(profileKey("simulsolve:min:stats")); if(s){ const v=JSON.parse(s); if(checkShape([], "lifetime", v, LIFETIME_SPEC)) return v as unknown as LifetimeStats; } }catch{ /* fall through to zeros */ }
   return { totalAttempts:0, totalCorrect:0, totalTimeSec:0 };
 }
 function saveLifetime(v: LifetimeStats){
-  try{ localStorage.setItem("simulsolve:min:stats", JSON.stringify(v)); }catch{}
+  try{ localStorage.setItem(profileKey("simulsolve:min:stats"), JSON.stringify(v)); }catch{ /* quota or private mode */ }
 }
-function loadSessions(): SessionSummary[] {
-  try{ const s=localStorage.getItem("simulsolve:sessions"); if(s) return JSON.parse(s);}catch{}
+function loadReview(): ReviewItem[] {
+  try{
+    const s=localStorage.getItem(profileKey("simulsolve:review"));
+    if(s) return (JSON.parse(s) as unknown[]).flatMap((raw,i)=>{ const it = readReviewItem([], `review[${i}]`, raw); return it ? [it] : []; });
+  }catch{ /* corrupt or unavailable: start empty */ }
   return [];
 }
-function saveSessions(list: SessionSummary[]){
-  try{ localStorage.setItem("simulsolve:sessions", JSON.stringify(list.slice(-50))); }catch{}
+function saveReview(list: ReviewItem[]){
+  try{ localStorage.setItem(profileKey("simulsolve:review"), JSON.stringify(list.map(it=>({ ...it, problem: problemToJSON(it.problem) })))); }catch{ /* quota or private mode */ }
+}
+/** Everything needed to pick an active session back up after a reload; clocks are banked at `savedAt`. */
+type Checkpoint = {
+  savedAt: number;
+  cfg: SessionConfig; sessionId: string; sessionStart: number; problemNo: number; level: number; levelPath: number[];
+  sessionSeconds: number; problemSeconds: number; problemRunning: boolean;
+  problem: StoredProblem; reviewId: string | null; answer: Record<string,string>; claim: SystemKind | null;
+  attemptsOnThis: number; revealed: boolean; hints: number;
+  attempts: AttemptRecord[]; sessionHints: number; ratingPath: number[]; pauses: PauseStats;
+};
+function loadCheckpoint(): Checkpoint | null {
+  try{
+    const s=localStorage.getItem(profileKey("simulsolve:checkpoint")); if(!s) return null;
+    const v=JSON.parse(s);
+    if(!checkShape([], "checkpoint", v, CHECKPOINT_SPEC) || !checkShape([], "checkpoint.cfg", v.cfg, CONFIG_SPEC)) return null;
+    const cp = v as unknown as Checkpoint;
+    const problem = readStoredProblem([], "checkpoint.problem", v.problem, { difficulty: cp.cfg.difficulty, ansType: cp.cfg.ansType });
+    return problem ? { ...cp, problem } : null;
+  }catch{ return null; }
+}
+function saveCheckpoint(cp: Checkpoint){
+  try{ localStorage.setItem(profileKey("simulsolve:checkpoint"), JSON.stringify(cp)); }catch{ /* quota or private mode */ }
+}
+function clearCheckpoint(){
+  try{ localStorage.removeItem(profileKey("simulsolve:checkpoint")); }catch{ /* unavailable */ }
+}
+function loadRating(): LearnerRating {
+  try{ const s=localStorage.getItem(profileKey("simulsolve:rating")); if(s){ const v=JSON.parse(s); if(checkShape([], "rating", v, RATING_SPEC)) return v as unknown as LearnerRating; } }catch{ /* fall through to a fresh rating */ }
+  return freshRating(Date.now());
+}
+function saveRating(v: LearnerRating){
+  try{ localStorage.setItem(profileKey("simulsolve:rating"), JSON.stringify(v)); }catch{ /* quota or private mode */ }
+}
+function loadPresets(): MixPreset[] {
+  try{
+    const s=localStorage.getItem("simulsolve:presets");
+    if(s) return (JSON.parse(s) as unknown[]).filter((raw,i)=>checkShape([], `presets[${i}]`, raw, PRESET_SPEC)) as MixPreset[];
+  }catch{ /* corrupt or unavailable: no presets */ }
+  return [];
+}
+function savePresets(list: MixPreset[]){
+  try{ localStorage.setItem("simulsolve:presets", JSON.stringify(list)); }catch{ /* quota or private mode */ }
+}
+// shortcuts belong to the device's keyboard, so like presets they are shared by every profile
+function loadShortcuts(): Shortcuts {
+  try{
+    const s=localStorage.getItem("simulsolve:shortcuts"), v: unknown = s ? JSON.parse(s) : null;
+    if(isObj(v)) return Object.fromEntries(Object.entries(DEFAULT_SHORTCUTS).map(([a,k])=>[a, isStr(v[a]) ? v[a] : k])) as Shortcuts;
+  }catch{ /* corrupt or unavailable: the defaults */ }
+  return DEFAULT_SHORTCUTS;
+}
+function saveShortcuts(v: Shortcuts){
+  try{ localStorage.setItem("simulsolve:shortcuts", JSON.stringify(v)); }catch{ /* quota or private mode */ }
+}
+
+/** ===== History store (IndexedDB) ===== */
+// Every session summary and every attempt (with its problem and what was typed) lives here, uncapped.
+type AttemptDetail = AttemptRecord & {
+  sessionId: string;
+  problem: StoredProblem;
+  answer: Record<string, string>;   // exactly as typed
+  residuals: string[];              // exact, per equation
+};
+const HISTORY_DB = "simulsolve", HISTORY_VERSION = 1;   // one database per profile, named through profileKey
+const historyDbs = new Map<string, Promise<IDBDatabase>>();
+function openHistory(id = activeProfile): Promise<IDBDatabase> {
+  const name = profileKey(HISTORY_DB, id);
+  let db = historyDbs.get(name);
+  if(!db){
+    db = new Promise((resolve, reject)=>{
+      const req = indexedDB.open(name, HISTORY_VERSION);
+      req.onupgradeneeded = ()=>{
+        const db = req.result;
+        db.createObjectStore("sessions", { keyPath: "id" });
+        db.createObjectStore("attempts", { autoIncrement: true }).createIndex("bySession", "sessionId");
+      };
+      req.onsuccess = ()=>resolve(req.result);
+      req.onerror = ()=>reject(req.error);
+    });
+    historyDbs.set(name, db);
+  }
+  return db;
+}
+function idbRequest<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject)=>{ req.onsuccess = ()=>resolve(req.result); req.onerror = ()=>reject(req.error); });
+}
+async function historyStore(name: "sessions"|"attempts", mode: IDBTransactionMode, id = activeProfile){
+  return (await openHistory(id)).transaction(name, mode).objectStore(name);
+}
+/** Loads all sessions, first moving any list left in localStorage by older versions into IndexedDB. */
+async function loadHistorySessions(): Promise<SessionSummary[]> {
+  const legacy = localStorage.getItem(profileKey("simulsolve:sessions"));
+  if(legacy){
+    const store = await historyStore("sessions", "readwrite");
+    let parsed: unknown = [];
+    try{ parsed = JSON.parse(legacy); }catch{ /* unreadable: drop it rather than block the history */ }
+    const list = Array.isArray(parsed) ? parsed.flatMap((raw,i)=>{ const s = readSession([], `sessions[${i}]`, raw); return s ? [s] : []; }) : [];
+    await Promise.all(list.map(s=>idbRequest(store.put(s))));
+    localStorage.removeItem(profileKey("simulsolve:sessions"));
+  }
+  const raw = await idbRequest((await historyStore("sessions", "readonly")).getAll());
+  return raw.flatMap((r,i)=>{ const s = readSession([], `sessions[${i}]`, r); return s ? [s] : []; }).sort((a,b)=>a.startedAt-b.startedAt);
+}
+async function loadAllHistoryAttempts(): Promise<AttemptDetail[]> {
+  return idbRequest((await historyStore("attempts", "readonly")).getAll() as IDBRequest<AttemptDetail[]>);
+}
+/** Writes imported rows in one transaction; `replace` clears both stores first. */
+async function writeHistory(sessions: SessionSummary[], attempts: AttemptDetail[], replace: boolean){
+  const tx = (await openHistory()).transaction(["sessions","attempts"], "readwrite");
+  const done = new Promise<void>((resolve, reject)=>{ tx.oncomplete = ()=>resolve(); tx.onerror = ()=>reject(tx.error); tx.onabort = ()=>reject(tx.error); });
+  const ss = tx.objectStore("sessions"), as = tx.objectStore("attempts");
+  if(replace){ ss.clear(); as.clear(); }
+  for(const s of sessions) ss.put(s);
+  for(const a of attempts) as.add(a);
+  return done;
+}
+// a duel saves into both players' histories, so these two take the profile explicitly
+async function saveHistorySession(s: SessionSummary, id = activeProfile){ await idbRequest((await historyStore("sessions", "readwrite", id)).put(s)); }
+async function saveHistoryAttempt(a: AttemptDetail, id = activeProfile){ await idbRequest((await historyStore("attempts", "readwrite", id)).add(a)); }
+async function loadHistoryAttempts(sessionId: string): Promise<AttemptDetail[]> {
+  const store = await historyStore("attempts", "readonly");
+  const list = await idbRequest(store.index("bySession").getAll(sessionId) as IDBRequest<AttemptDetail[]>);
+  return list.sort((a,b)=>a.ts-b.ts);
+}
+async function clearHistory(){
+  await Promise.all((["sessions","attempts"] as const).map(async n=>idbRequest((await historyStore(n, "readwrite")).clear())));
+}
+async function deleteHistory(id: string){
+  const name = profileKey(HISTORY_DB, id), db = historyDbs.get(name);
+  historyDbs.delete(name);
+  if(db) (await db.catch(()=>null))?.close();
+  await idbRequest(indexedDB.deleteDatabase(name));
+}
+
+/** ===== Data schema: validation, migration, export ===== */
+// Everything read back from storage or an import file goes through these readers, which
+// check the shape and fill in fields that older versions did not write.
+const LIFETIME_SPEC: Spec = { totalAttempts:[isNum,"a number"], totalCorrect:[isNum,"a number"], totalTimeSec:[isNum,"a number"] };
+const MIX_SPEC: Spec = {
+  mode:[oneOf(MODES),"a known mode"], difficulty:[oneOf(DIFFICULTIES),"easy, medium or hard"], ansType:[oneOf(ANSWER_TYPES),"integers or fractions"], weight:[v=>isNum(v) && v>0,"a positive number"],
+};
+const isMix = (v: unknown) => isList(c=>checkShape([], "mix", c, MIX_SPEC))(v) && (v as unknown[]).length>0;
+const CONFIG_SPEC: Spec = {
+  minutes:[isNum,"a number"], mode:[oneOf(MODES),"a known mode"], difficulty:[oneOf(DIFFICULTIES),"easy, medium or hard"], ansType:[oneOf(ANSWER_TYPES),"integers or fractions"],
+  method:[oneOf(Object.keys(METHOD_LABEL)),"a solution method",true], seed:[isNum,"a number",true], adaptive:[isBool,"true or false",true],
+  review:[oneOf(["mix","off","only"]),"mix, off or only",true], reviewAs:[oneOf(["same","fresh"]),"same or fresh",true],
+  classify:[isBool,"true or false",true], lowestTerms:[isBool,"true or false",true],
+  format:[oneOf(Object.keys(FORMAT_LABEL)),"timed, sprint, survival or untimed",true], sprintCount:[isNum,"a number",true],
+  mix:[isMix,"a list of pool components",true],
+  present:[oneOf(Object.keys(PRESENT_LABEL)),"equations, augmented or matrix",true], rref:[isBool,"true or false",true],
+};
+const isPauses = (v: unknown) => isObj(v) && isNum(v.count) && isNum(v.auto) && isNum(v.seconds);
+const CHECKPOINT_SPEC: Spec = {
+  savedAt:[isNum,"a timestamp"], cfg:[isObj,"an object"], sessionId:[isStr,"a string"], sessionStart:[isNum,"a timestamp"], problemNo:[isNum,"a number"],
+  level:[isNum,"a number"], levelPath:[isList(isNum),"a list of numbers"], sessionSeconds:[isNum,"a number"], problemSeconds:[isNum,"a number"],
+  problemRunning:[isBool,"true or false"], problem:[isObj,"an object"], reviewId:[v=>v===null || isStr(v),"a string or null"],
+  answer:[v=>isObj(v) && Object.values(v).every(isStr),"an object of strings"], claim:[v=>v===null || oneOf(["unique","none","infinite"])(v),"a solution kind or null"],
+  attemptsOnThis:[isNum,"a number"], revealed:[isBool,"true or false"], hints:[isNum,"a number"],
+  attempts:[isList(isObj),"a list of attempts"], sessionHints:[isNum,"a number"], ratingPath:[isList(isNum),"a list of numbers"], pauses:[isPauses,"pause counts"],
+};
+const RATING_SPEC: Spec = {
+  r:[isNum,"a number"], rd:[isNum,"a number"], updatedAt:[isNum,"a timestamp"], history:[isList(h=>isObj(h) && isNum(h.ts) && isNum(h.r)),"a list of ratings"],
+};
+const PRESET_SPEC: Spec = { name:[isStr,"a string"], mix:[isMix,"a list of pool components"] };
+const PROFILE_SPEC: Spec = { id:[isStr,"a string"], name:[isStr,"a string"], createdAt:[isNum,"a timestamp"], config:[isObj,"an object",true] };
+const DUEL_SPEC: Spec = {
+  opponent:[isStr,"a string"], layout:[oneOf(Object.keys(DUEL_LAYOUT_LABEL)),"side or turns"], result:[oneOf(["won","lost","tied"]),"won, lost or tied"],
+  adjSeconds:[isNum,"a number"], opponentCorrect:[isNum,"a number"], opponentAdjSeconds:[isNum,"a number"],
+};
+const SESSION_SPEC: Spec = {
+  id:[isStr,"a string"], startedAt:[isNum,"a timestamp"], durationMin:[isNum,"a number"], actualSeconds:[isNum,"a number"],
+  attempts:[isNum,"a number"], correct:[isNum,"a number"], accuracyPct:[isNum,"a number"], avgTimePerAttempt:[isNum,"a number"],
+  avgTimeAdj:[isNum,"a number"], problemsPerMin:[isNum,"a number"], config:[isObj,"an object"], levelPath:[isList(isNum),"a list of numbers",true],
+  score:[isNum,"a number",true], hints:[isNum,"a number",true], sprintSeconds:[isNum,"a number",true], survived:[isNum,"a number",true],
+  components:[isList(isObj),"a list of component results",true], ratingPath:[isList(isNum),"a list of numbers",true], pauses:[isPauses,"pause counts",true],
+  mistakes:[v=>isObj(v) && Object.entries(v).every(([k,n])=>k in MISTAKE_LABEL && isNum(n)),"mistake counts",true],
+  duel:[v=>checkShape([], "duel", v, DUEL_SPEC),"a duel result",true],
+};
+const ATTEMPT_SPEC: Spec = {
+  sessionId:[isStr,"a string"], ts:[isNum,"a timestamp"], seconds:[isNum,"a number"], correct:[isBool,"true or false"],
+  difficulty:[oneOf(DIFFICULTIES),"easy, medium or hard"], mode:[oneOf(MODES),"a known mode"], problem:[isObj,"an object"],
+  answer:[isObj,"an object"], residuals:[isList(isStr),"a list of strings"], level:[isNum,"a number",true], review:[isBool,"true or false",true],
+  unsimplified:[isBool,"true or false",true], mistakes:[isList(oneOf(Object.keys(MISTAKE_LABEL))),"a list of mistake kinds",true],
+  hints:[isNum,"a number",true], ansType:[oneOf(ANSWER_TYPES),"integers or fractions",true],
+  rating:[isNum,"a number",true], scratch:[v=>isObj(v) && isNum(v.steps) && isNum(v.route) && (v.firstInvalid===undefined || isNum(v.firstInvalid)),"scratchpad counts",true],
+};
+const REVIEW_SPEC: Spec = { id:[isStr,"a string"], problem:[isObj,"an object"], box:[isNum,"a number"], due:[isNum,"a timestamp"], addedAt:[isNum,"a timestamp"], lapses:[isNum,"a number"] };
+
+function readSession(errs: string[], path: string, raw: unknown): SessionSummary | null {
+  if(!checkShape(errs, path, raw, SESSION_SPEC) || !checkShape(errs, `${path}.config`, raw.config, CONFIG_SPEC)) return null;
+  const s = raw as unknown as SessionSummary;
+  return { ...s, config: { ...s.config, method: s.config.method ?? "elimination" } };   // sessions saved before the method picker existed
+}
+function readProfile(errs: string[], path: string, raw: unknown): Profile | null {
+  if(!checkShape(errs, path, raw, PROFILE_SPEC)) return null;
+  const p = raw as unknown as Profile;
+  return p.config && !checkShape(errs, `${path}.config`, p.config, CONFIG_SPEC) ? { ...p, config: undefined } : p;   // bad defaults are dropped, not the profile
+}
+function readAttempt(errs: string[], path: string, raw: unknown): AttemptDetail | null {
+  if(!checkShape(errs, path, raw, ATTEMPT_SPEC)) return null;
+  const a = raw as unknown as AttemptDetail;
+  const problem = readStoredProblem(errs, `${path}.problem`, raw.problem, { difficulty: a.difficulty, ansType: "fractions" });
+  return problem ? { ...a, problem } : null;
+}
+function readReviewItem(errs: string[], path: string, raw: unknown): ReviewItem | null {
+  if(!checkShape(errs, path, raw, REVIEW_SPEC)) return null;
+  const problem = readStoredProblem(errs, `${path}.problem`, raw.problem, { difficulty: "medium", ansType: "fractions" });
+  return problem ? { ...(raw as unknown as ReviewItem), problem: problemFromJSON(problem) } : null;
+}
+
+const EXPORT_FORMAT = "simulsolve-export", EXPORT_VERSION = 1;
+type ExportBundle = {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  lifetime: LifetimeStats;
+  sessions: SessionSummary[];
+  attempts: AttemptDetail[];
+  review: (Omit<ReviewItem,"problem"> & { problem: StoredProblem })[];
+};
+function buildExport(lifetime: LifetimeStats, sessions: SessionSummary[], attempts: AttemptDetail[], review: ReviewItem[]): ExportBundle {
+  return { format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: Date.now(), lifetime, sessions, attempts, review: review.map(it=>({ ...it, problem: problemToJSON(it.problem) })) };
+}
+type ImportData = { lifetime: LifetimeStats | null; sessions: SessionSummary[]; attempts: AttemptDetail[]; review: ReviewItem[] };
+/**
+ * Accepts an export file, or the bare session array older versions kept in localStorage.
+ * Any schema error rejects the whole file; at most 10 errors are reported.
+ */
+function parseImport(text: string): { data: ImportData } | { errors: string[] } {
+  let raw: unknown;
+  try{ raw = JSON.parse(text); }catch(e){ return { errors: [`Not valid JSON: ${(e as Error).message}`] }; }
+  const errs: string[] = [];
+  const all = <T,>(list: unknown, path: string, read: (errs: string[], path: string, raw: unknown)=>T | null): T[] => {
+    if(!Array.isArray(list)){ errs.push(`${path}: expected a list`); return []; }
+    return list.flatMap((r,i)=>{ const v = read(errs, `${path}[${i}]`, r); return v ? [v] : []; });
+  };
+  let data: ImportData;
+  if(Array.isArray(raw)) data = { lifetime: null, sessions: all(raw, "sessions", readSession), attempts: [], review: [] };
+  else if(isObj(raw) && raw.format===EXPORT_FORMAT){
+    if(!isNum(raw.version) || raw.version>EXPORT_VERSION) return { errors: [`Export version ${String(raw.version)} is newer than this app understands (${EXPORT_VERSION}).`] };
+    const lifetime = checkShape(errs, "lifetime", raw.lifetime, LIFETIME_SPEC) ? raw.lifetime as unknown as LifetimeStats : null;
+    data = { lifetime, sessions: all(raw.sessions, "sessions", readSession), attempts: all(raw.attempts, "attempts", readAttempt), review: all(raw.review, "review", readReviewItem) };
+  }
+  else return { errors: ["This is not a SimulSolve export file."] };
+  return errs.length ? { errors: errs.slice(0, 10).concat(errs.length>10 ? [`…and ${errs.length-10} more`] : []) } : { data };
+}
+/** Merge keeps existing rows and adds only sessions whose id is new (with their attempts); replace swaps everything. */
+function planImport(data: ImportData, current: { sessions: SessionSummary[]; review: ReviewItem[]; lifetime: LifetimeStats }, replace: boolean){
+  if(replace){
+    const lifetime = data.lifetime ?? data.sessions.reduce(addToLifetime, { totalAttempts:0, totalCorrect:0, totalTimeSec:0 });
+    return { sessions: data.sessions, attempts: data.attempts, review: data.review, lifetime, added: data.sessions.length, duplicates: 0 };
+  }
+  const have = new Set(current.sessions.map(s=>s.id));
+  const fresh = data.sessions.filter(s=>!have.has(s.id));
+  const freshIds = new Set(fresh.map(s=>s.id));
+  const haveReview = new Set(current.review.map(it=>it.id));
+  return {
+    sessions: fresh,
+    attempts: data.attempts.filter(a=>freshIds.has(a.sessionId)),
+    review: [...current.review, ...data.review.filter(it=>!haveReview.has(it.id))],
+    lifetime: fresh.reduce(addToLifetime, current.lifetime),
+    added: fresh.length,
+    duplicates: data.sessions.length - fresh.length,
+  };
+}
+function addToLifetime(l: LifetimeStats, s: SessionSummary): LifetimeStats {
+  return { totalAttempts: l.totalAttempts + s.attempts, totalCorrect: l.totalCorrect + s.correct, totalTimeSec: +(l.totalTimeSec + s.avgTimePerAttempt*s.attempts).toFixed(1) };
+}
+
+const csvCell = (v: unknown) => { const t = v===undefined || v===null ? "" : String(v); return /[",\n]/.test(t) ? `"${t.replace(/"/g, '""')}"` : t; };
+const toCsv = (rows: unknown[][]) => rows.map(r=>r.map(csvCell).join(",")).join("\n");
+function sessionsCsv(list: SessionSummary[]){
+  return toCsv([
+    ["id","started","mode","difficulty","answers","adaptive","classify","mix","format","minutes","code","attempts","correct","accuracy_pct","avg_time_s","adj_avg_time_s","problems_per_min","actual_s","score","hints"],
+    ...list.map(s=>[s.id, new Date(s.startedAt).toISOString(), s.config.mode, s.config.difficulty, s.config.ansType, !!s.config.adaptive, !!s.config.classify, s.config.mix ? mixText(s.config.mix) : "", s.config.format ?? "timed", s.durationMin,
+      s.config.seed!==undefined ? encodeSessionCode(s.config, s.config.seed) : "", s.attempts, s.correct, s.accuracyPct, s.avgTimePerAttempt, s.avgTimeAdj, s.problemsPerMin, s.actualSeconds, s.score ?? "", s.hints ?? ""]),
+  ]);
+}
+function attemptsCsv(list: AttemptDetail[]){
+  return toCsv([
+    ["session_id","time","mode","difficulty","rating","correct","seconds","hints","equations","typed","solution"],
+    ...list.map(a=>[a.sessionId, new Date(a.ts).toISOString(), a.mode, a.difficulty, a.rating ?? "", a.correct, a.seconds, a.hints ?? 0, a.problem.display.join(" ; "),
+      answerText(a.problem, a.answer), solutionText(a.problem)]),
+  ]);
+}
+function downloadFile(name: string, text: string, type: string){
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement("a"); a.href = url; a.download = name; a.click();
+  setTimeout(()=>URL.revokeObjectURL(url), 1000);
+}
+
+/** ===== Analytics ===== */
+type Metric = "accuracyPct" | "problemsPerMin" | "avgTimeAdj";
+const METRICS: { key: Metric; label: string; unit: string; better: "high"|"low" }[] = [
+  { key:"accuracyPct", label:"Accuracy", unit:"%", better:"high" },
+  { key:"problemsPerMin", label:"Problems/min", unit:"", better:"high" },
+  { key:"avgTimeAdj", label:"Adj. avg time", unit:"s", better:"low" },
+];
+const ROLLING_WINDOW = 5;
+const isBetter = (a: number, b: number, better: "high"|"low") => better==="high" ? a>b : a<b;
+const mean = (vals: number[]) => vals.length ? vals.reduce((s,v)=>s+v,0)/vals.length : 0;
+function rollingMean(vals: number[], w = ROLLING_WINDOW){ return vals.map((_,i)=>mean(vals.slice(Math.max(0, i-w+1), i+1))); }
+/** True where a value beat every earlier one, i.e. where a personal best was set. */
+function personalBests(vals: number[], better: "high"|"low"){
+  let best: number | null = null;
+  return vals.map(v=>{ const pb = best===null || isBetter(v, best, better); if(pb) best = v; return pb; });
+}
+/** Sessions that count for trends and personal bests: at least one attempt, and not a duel (played one answer a problem, against someone else). */
+const trendSessions = (list: SessionSummary[]) => list.filter(s=>s.attempts>0 && !s.duel);
+/** Past sessions of one format; duels are saved as sprints but only show under "all". */
+const byFormat = (list: SessionSummary[], f: SessionFormat | "all") => f==="all" ? list : list.filter(s=>(s.config.format ?? "timed")===f && !s.duel);
+const sameConfig = (a: SessionConfig, b: SessionConfig) => (a.format ?? "timed")===(b.format ?? "timed") && a.sprintCount===b.sprintCount && mixKey(a.mix)===mixKey(b.mix) && a.mode===b.mode && a.difficulty===b.difficulty && a.ansType===b.ansType && !!a.adaptive===!!b.adaptive && !!a.classify===!!b.classify;
+/** How `last` compares with earlier sessions played at the same config. */
+function compareToHistory(last: SessionSummary, all: SessionSummary[]){
+  const prior = trendSessions(all).filter(s=>s.id!==last.id && s.startedAt<last.startedAt && sameConfig(s.config, last.config));
+  return {
+    count: prior.length,
+    rows: METRICS.map(m=>{
+      const vals = prior.map(s=>s[m.key]);
+      const best = vals.length ? (m.better==="high" ? Math.max(...vals) : Math.min(...vals)) : null;
+      return { ...m, value: last[m.key], mean: vals.length ? mean(vals) : null, best, isPB: last.attempts>0 && (best===null || isBetter(last[m.key], best, m.better)) };
+    }),
+  };
+}
+function breakdown<K extends "mode"|"difficulty"|"ansType">(list: SessionSummary[], key: K){
+  const groups = new Map<string, SessionSummary[]>();
+  for(const s of trendSessions(list)){ const g = s.config.mix ? "mix" : String(s.config[key]); groups.set(g, [...(groups.get(g) ?? []), s]); }
+  return [...groups.entries()].map(([group, ss])=>({ group, count: ss.length, ...Object.fromEntries(METRICS.map(m=>[m.key, mean(ss.map(s=>s[m.key]))])) as Record<Metric, number> }));
 }
 
 /** ===== Small UI helpers ===== */
@@ -216,176 +645,562 @@ function Stat({label, value}:{label:string; value:string}) {
   );
 }
 
+/** A linear system as [A | b] or AX = B; the brackets are borders in the current text colour, and screen readers get it row by row. */
+function MatrixView({p, present}:{p: Problem; present: Presentation}) {
+  const rows = augmentedRows(p), n = p.variables.length;
+  const spoken = present==="augmented"
+    ? `augmented matrix, ${rows.map((r,i)=>`row ${i+1}: ${r.slice(0, n).join(", ")}, bar ${r[n]}`).join("; ")}`
+    : `matrix ${rows.map((r,i)=>`row ${i+1}: ${r.slice(0, n).join(", ")}`).join("; ")}, times ${p.variables.join(", ")}, equals ${rows.map(r=>r[n]).join(", ")}`;
+  const bracket = (cells: (number | string)[][], bar = -1) => (
+    <div className="inline-grid gap-x-4 border-x-2 border-current rounded-md px-3 py-1 text-right tabular-nums" style={{ gridTemplateColumns: `repeat(${cells[0].length}, auto)` }}>
+      {cells.flatMap((row,i)=>row.map((v,j)=>(<span key={`${i}-${j}`} className={`py-0.5 ${j===bar ? "border-l border-current pl-3" : ""}`}>{v}</span>)))}
+    </div>
+  );
+  return present==="augmented"
+    ? <div className="flex items-center" role="math" aria-label={spoken}>{bracket(rows, n)}</div>
+    : <div className="flex flex-wrap items-center gap-3" role="math" aria-label={spoken}>{bracket(rows.map(r=>r.slice(0, n)))}{bracket(p.variables.map(v=>[v]))}<span>=</span>{bracket(rows.map(r=>[r[n]]))}</div>;
+}
+
+function LevelPath({path}:{path:number[]}) {
+  const w = 300, h = 60, step = w / Math.max(1, path.length-1);
+  const pts = path.map((v,i)=>`${(i*step).toFixed(1)},${(h - h*v/ADAPT.max).toFixed(1)}`).join(" ");
+  return (
+    <svg viewBox={`0 0 ${w} ${h}`} className="w-full h-16 rounded-lg border border-neutral-800 bg-black/30" preserveAspectRatio="none">
+      {[10/3, 20/3].map(b=>(<line key={b} x1={0} x2={w} y1={h - h*b/ADAPT.max} y2={h - h*b/ADAPT.max} className="stroke-neutral-800" strokeDasharray="4 4"/>))}
+      <polyline points={pts} fill="none" className="stroke-blue-300" strokeWidth={2} vectorEffect="non-scaling-stroke"/>
+    </svg>
+  );
+}
+
+/** Diagnosed mistakes, most frequent first. */
+function MistakeList({counts}:{counts: Partial<Record<MistakeKind, number>>}) {
+  const rows = (Object.entries(counts) as [MistakeKind, number][]).sort((a,b)=>b[1]-a[1]);
+  if(rows.length===0) return <div className="text-xs text-neutral-500">No wrong answers to diagnose.</div>;
+  const top = rows[0][1];
+  return (
+    <div className="space-y-1">
+      {rows.map(([k,n])=>(
+        <div key={k} className="flex items-center gap-2 text-xs text-neutral-400">
+          <span className="w-56 text-neutral-300">{MISTAKE_LABEL[k]}</span>
+          <div className="flex-1 h-2 rounded bg-black/30"><div className="h-2 rounded bg-red-400/60" style={{width:`${100*n/top}%`}}/></div>
+          <span className="tabular-nums w-6 text-right">{n}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** Sparkline of a rating series, scaled to its own range. */
+function RatingChart({values}:{values:number[]}) {
+  const w = 300, h = 60, lo = Math.min(...values) - 10, span = Math.max(...values) + 10 - lo, step = w / Math.max(1, values.length-1);
+  const pts = values.map((v,i)=>`${(i*step).toFixed(1)},${(h - h*(v-lo)/span).toFixed(1)}`).join(" ");
+  return (
+    <svg viewBox={`0 0 ${w} ${h}`} className="w-full h-16 rounded-lg border border-neutral-800 bg-black/30" preserveAspectRatio="none">
+      <polyline points={pts} fill="none" className="stroke-emerald-300" strokeWidth={2} vectorEffect="non-scaling-stroke"/>
+    </svg>
+  );
+}
+
+function TrendChart({label, unit, better, values, dates}:{label:string; unit:string; better:"high"|"low"; values:number[]; dates:number[]}) {
+  const w = 600, h = 140, pad = 8;
+  if(values.length<2) return <div className="text-xs text-neutral-500">{label}: need at least two sessions.</div>;
+  const lo = Math.min(...values), hi = Math.max(...values), span = hi-lo || 1;
+  const x = (i: number) => pad + i*(w-2*pad)/(values.length-1);
+  const y = (v: number) => h - pad - (v-lo)*(h-2*pad)/span;
+  const line = (vals: number[]) => vals.map((v,i)=>`${x(i).toFixed(1)},${y(v).toFixed(1)}`).join(" ");
+  const pbs = personalBests(values, better);
+  const best = better==="high" ? hi : lo;
+  return (
+    <div>
+      <div className="flex items-baseline gap-2 text-xs text-neutral-400 mb-1">
+        <span className="text-sm text-neutral-200">{label}</span>
+        <span>latest {values[values.length-1].toFixed(2)}{unit}</span>
+        <span>• best {best.toFixed(2)}{unit}</span>
+        <span className="ml-auto">{new Date(dates[0]).toLocaleDateString()} – {new Date(dates[dates.length-1]).toLocaleDateString()}</span>
+      </div>
+      <svg viewBox={`0 0 ${w} ${h}`} className="w-full h-36 rounded-lg border border-neutral-800 bg-black/30" preserveAspectRatio="none">
+        <polyline points={line(values)} fill="none" className="stroke-neutral-600" strokeWidth={1} vectorEffect="non-scaling-stroke"/>
+        <polyline points={line(rollingMean(values))} fill="none" className="stroke-blue-300" strokeWidth={2} vectorEffect="non-scaling-stroke"/>
+        {values.map((v,i)=> pbs[i] && <circle key={i} cx={x(i)} cy={y(v)} r={3.5} className="fill-amber-300"/>)}
+      </svg>
+    </div>
+  );
+}
+
 /** ===== Main Component with Session Flow (Auto-start fixed) ===== */
 export default function SimulSolveSessions(){
   const [phase, setPhase] = useState<SessionPhase>("setup");
 
+  // learner profiles; selecting first means every loader below reads the active profile's data
+  const [profiles, setProfiles] = useState<ProfileList>(()=>{ const v = loadProfiles(); selectProfile(v.active); return v; });
+  const [profileEdit, setProfileEdit] = useState<{ rename: boolean; name: string } | null>(null);
+  const profile = profiles.list.find(x=>x.id===profiles.active) ?? profiles.list[0];
+  const initial = useRef(profile.config ?? DEFAULT_SETUP).current;   // the profile's saved setup, read once
+
   // session config
-  const [minutes, setMinutes] = useState(10);
-  const [mode, setMode] = useState<Mode>("2x2");
-  const [difficulty, setDifficulty] = useState<Difficulty>("medium");
-  const [ansType, setAnsType] = useState<AnswerType>("fractions");
-  const config: SessionConfig = { minutes, mode, difficulty, ansType };
+  const [minutes, setMinutes] = useState(initial.minutes);
+  const [format, setFormat] = useState<SessionFormat>(initial.format ?? "timed");
+  const [sprintCount, setSprintCount] = useState(initial.sprintCount ?? 10);
+  const [mode, setMode] = useState<Mode>(initial.mode);
+  const [difficulty, setDifficulty] = useState<Difficulty>(initial.difficulty);
+  const [ansType, setAnsType] = useState<AnswerType>(initial.ansType);
+  const [method, setMethod] = useState<SolveMethod>(initial.method ?? "elimination");
+  const [adaptive, setAdaptive] = useState(!!initial.adaptive);
+  const [review, setReview] = useState<ReviewMode>(initial.review ?? "mix");
+  const [reviewAs, setReviewAs] = useState<ReviewAs>(initial.reviewAs ?? "fresh");
+  const [classify, setClassify] = useState(!!initial.classify);
+  const [lowestTerms, setLowestTerms] = useState(!!initial.lowestTerms);
+  const [present, setPresent] = useState<Presentation>(initial.present ?? "equations");
+  const [rref, setRref] = useState(!!initial.rref);
+  const [mixOn, setMixOn] = useState(!!initial.mix);
+  const [mix, setMix] = useState<MixComponent[]>(initial.mix ?? [
+    { mode:"2x2", difficulty:"medium", ansType:"fractions", weight:60 }, { mode:"3x3", difficulty:"easy", ansType:"integers", weight:40 },
+  ]);
+  const [presets, setPresets] = useState<MixPreset[]>(loadPresets);
+  const [presetName, setPresetName] = useState("");
+  const pool = mixOn && mix.length>0 ? { mix, mode: mix[0].mode, difficulty: mix[0].difficulty, ansType: mix[0].ansType } : {};
+  const config: SessionConfig = { minutes, format, ...(format==="sprint" ? { sprintCount } : {}), mode, difficulty, ansType, method, adaptive: adaptive && !mixOn, review, reviewAs, classify, lowestTerms, present, rref: rref && present!=="equations", ...pool };
 
   // per-session state
+  const [sessionCfg, setSessionCfg] = useState<SessionConfig>(config);   // snapshot taken at start, incl. seed
+  const sessionSeed = sessionCfg.seed ?? 0;
   const [sessionStart, setSessionStart] = useState<number>(0);
-  const [sessionElapsed, setSessionElapsed] = useState(0); // seconds
-  const sessionTotal = minutes * 60;
-  const sessionRemaining = Math.max(0, sessionTotal - sessionElapsed);
+  const [sessionId, setSessionId] = useState("");
+  const [problemNo, setProblemNo] = useState(0);            // index into the seeded sequence
+  const [level, setLevel] = useState(ADAPT_START.medium);   // adaptive level for the next problem
+  const [levelPath, setLevelPath] = useState<number[]>([]);
+  const [codeInput, setCodeInput] = useState("");
+  const [codeErr, setCodeErr] = useState("");
+  const [now, setNow] = useState(()=>Date.now());          // last clock tick, for display
+  const [sessionClock, setSessionClock] = useState<Clock>(CLOCK_ZERO);
+  const sessionElapsed = +clockRead(sessionClock, now).toFixed(1);   // seconds
+  const [paused, setPaused] = useState<{ at: number; reason: "manual" | "hidden" | "restored"; problemRunning: boolean } | null>(null);
+  const [pauses, setPauses] = useState<PauseStats>({ count: 0, auto: 0, seconds: 0 });
+  const [resumable, setResumable] = useState<Checkpoint | null>(loadCheckpoint);
+  const restoringRef = useRef(false);   // skip the per-problem reset once when a checkpoint brings its own problem state
+  const timed = (sessionCfg.format ?? "timed")==="timed";
+  const sessionTotal = sessionCfg.minutes * 60;   // the running session's length, not the setup form's
+  const sessionRemaining = timed ? Math.max(0, sessionTotal - sessionElapsed) : Infinity;
 
   // per-problem state
   const [p, setP] = useState<Problem>(()=>genProblem(mode, difficulty, ansType));
-  const [runningProblem, setRunningProblem] = useState(false);
-  const [elapsedProblem, setElapsedProblem] = useState(0);
+  const [problemClock, setProblemClock] = useState<Clock>(CLOCK_ZERO);
+  const runningProblem = problemClock.since!==null;
+  const elapsedProblem = +clockRead(problemClock, now).toFixed(1);
   const [answer, setAnswer] = useState<Record<string,string>>({});
-  const [status, setStatus] = useState<"idle"|"correct"|"wrong">("idle");
+  const [claim, setClaim] = useState<SystemKind | null>(null);   // classify sessions: the case the learner picked
+  const [status, setStatus] = useState<"idle"|"correct"|"wrong"|"unsimplified">("idle");
   const [explain, setExplain] = useState<ExplainState>({ reasons: [], steps: [] });
   const [inputErr, setInputErr] = useState<Record<string,string>>({});
+  const [preview, setPreview] = useState<Record<string,string>>({});   // value each field parsed to
   const [attemptsOnThis, setAttemptsOnThis] = useState(0);
   const [revealed, setRevealed] = useState(false);
+  const [hints, setHints] = useState(0);   // hint levels shown for this problem
+  const [scratchOn, setScratchOn] = useState(false);
+  const [scratch, setScratch] = useState<ScratchStep[]>([]);
+  const [scratchDraft, setScratchDraft] = useState<ScratchDraft>(SCRATCH_DRAFT);
+  const [rrefWrong, setRrefWrong] = useState<string[]>([]);   // RREF entries marked wrong on the last submit
   const firstEditRef = useRef(false);
 
   // aggregate stats
   const [sessionAttempts, setSessionAttempts] = useState<AttemptRecord[]>([]);
+  const [sessionHints, setSessionHints] = useState(0);
+  const [rating, setRating] = useState<LearnerRating>(loadRating);
+  const [ratingPath, setRatingPath] = useState<number[]>([]);
   const [lifetime, setLifetime] = useState<LifetimeStats>(loadLifetime());
-  const [pastSessions, setPastSessions] = useState<SessionSummary[]>(loadSessions());
+  const [pastSessions, setPastSessions] = useState<SessionSummary[]>([]);
+  const [formatFilter, setFormatFilter] = useState<SessionFormat | "all">("all");
+  const [detail, setDetail] = useState<{ session: SessionSummary; attempts: AttemptDetail[] | null } | null>(null);
+  const [historyErr, setHistoryErr] = useState("");
+  const [trendFilter, setTrendFilter] = useState<{ mode: Mode|"all"; difficulty: Difficulty|"all"; ansType: AnswerType|"all" }>({ mode:"all", difficulty:"all", ansType:"all" });
+  const [reviewQueue, setReviewQueue] = useState<ReviewItem[]>(loadReview);
+  const [reviewId, setReviewId] = useState<string|null>(null);   // queue item behind the current problem
+  const [reviewDone, setReviewDone] = useState(false);           // review-only session ran out of due items
+  const [pendingImport, setPendingImport] = useState<{ name: string; data: ImportData; duplicates: number } | null>(null);
+  const [dataMsg, setDataMsg] = useState<{ ok: boolean; lines: string[] } | null>(null);
+  const [sheet, setSheet] = useState<Worksheet | null>(null);
+  const [sheetCount, setSheetCount] = useState(12);
+  const [sheetTitle, setSheetTitle] = useState("Simultaneous equations");
+  const [sheetSeed, setSheetSeed] = useState("");   // blank: a fresh sheet
+  const [sheetSteps, setSheetSteps] = useState(false);
+  const [sheetView, setSheetView] = useState<"sheet"|"key">("sheet");
+  const [sheetErr, setSheetErr] = useState("");
+  const [shortcuts, setShortcuts] = useState<Shortcuts>(loadShortcuts);
+  const [helpOpen, setHelpOpen] = useState(false);
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);   // rebinding: the next combo goes to this action
+  const [announce, setAnnounce] = useState("");   // read out by the polite live region
+  const [duel, setDuel] = useState<Duel | null>(null);   // null on the duel screen: still choosing players
+  const [duelSetup, setDuelSetup] = useState<{ players: [string, string]; layout: DuelLayout; count: number }>({ players: ["", ""], layout: "side", count: 10 });
+
+  // history lives in IndexedDB, so it arrives after the first render
+  useEffect(()=>{
+    let live = true;
+    loadHistorySessions()
+      .then(list=>{ if(live) setPastSessions(list); })
+      .catch(()=>{ if(live) setHistoryErr("Session history is unavailable in this browser."); });
+    return ()=>{ live = false; };
+  }, []);
 
   /** ====== Robust auto-start helpers ====== */
+  function setRunningProblem(on: boolean){
+    const t = Date.now();
+    setProblemClock(c => on ? clockStart(c, t) : clockStop(c, t));
+  }
   function ensureProblemRunning(){
-    if(phase!=="active") return;
-    setRunningProblem(curr => (curr ? curr : true));
+    if(phase!=="active" || paused) return;
+    setRunningProblem(true);
   }
 
   // Safety net: if any field becomes non-empty, start timer
   useEffect(() => {
-    if (phase!=="active" || runningProblem) return;
-    for (const v of p.variables) {
-      const val = (answer as any)[v];
-      if (typeof val === "string" && val.trim() !== "") { setRunningProblem(true); break; }
+    if (phase!=="active" || runningProblem || paused) return;
+    for (const val of Object.values(answer)) {
+      if (val.trim() !== "") { setProblemClock(c=>clockStart(c, Date.now())); break; }
     }
-  }, [answer, p.variables, runningProblem, phase]);
+  }, [answer, runningProblem, phase, paused]);
 
   /** ===== timers ===== */
+  // ticks only refresh the display; the clocks themselves are timestamps
   useEffect(()=>{
-    if(phase !== "active") return;
-    const id = setInterval(()=>setSessionElapsed(s=>+(s+0.2).toFixed(1)), 200);
+    if(phase!=="active" && phase!=="duel") return;
+    const id = setInterval(()=>setNow(Date.now()), 100);
     return ()=>clearInterval(id);
   }, [phase]);
 
+  // hiding the page pauses the whole session
   useEffect(()=>{
-    if(!runningProblem || phase!=="active") return;
-    const id = setInterval(()=>setElapsedProblem(s=>+(s+0.1).toFixed(1)), 100);
-    return ()=>clearInterval(id);
-  }, [runningProblem, phase]);
+    if(phase!=="active" || paused) return;
+    const onVisibility = ()=>{
+      if(!document.hidden) return;
+      const t = Date.now();
+      setPaused({ at: t, reason: "hidden", problemRunning: runningProblem });
+      setPauses(ps=>({ ...ps, count: ps.count+1, auto: ps.auto+1 }));
+      setSessionClock(c=>clockStop(c, t)); setProblemClock(c=>clockStop(c, t));
+    };
+    document.addEventListener("visibilitychange", onVisibility);
+    return ()=>document.removeEventListener("visibilitychange", onVisibility);
+  }, [phase, paused, runningProblem]);
+
+  // one keydown listener for the whole app; the ref always holds this render's handler
+  const shortcutKeyRef = useRef(onShortcutKey);
+  shortcutKeyRef.current = onShortcutKey;
+  useEffect(()=>{
+    const onKey = (e: KeyboardEvent)=>shortcutKeyRef.current(e);
+    window.addEventListener("keydown", onKey);
+    return ()=>window.removeEventListener("keydown", onKey);
+  }, []);
+
+  // checkpoint the active session every couple of seconds and on every change, so a reload can resume it
+  const saveTick = Math.floor(now/2000);
+  useEffect(()=>{
+    if(phase!=="active") return;
+    const t = Date.now();
+    saveCheckpoint({
+      savedAt: t, cfg: sessionCfg, sessionId, sessionStart, problemNo, level, levelPath,
+      sessionSeconds: clockRead(sessionClock, t), problemSeconds: clockRead(problemClock, t), problemRunning: paused ? paused.problemRunning : problemClock.since!==null,
+      problem: problemToJSON(p), reviewId, answer, claim, attemptsOnThis, revealed, hints,
+      attempts: sessionAttempts, sessionHints, ratingPath, pauses,
+    });
+  }, [phase, saveTick, sessionCfg, sessionId, sessionStart, problemNo, level, levelPath, sessionClock, problemClock, paused, p, reviewId, answer, claim, attemptsOnThis, revealed, hints, sessionAttempts, sessionHints, ratingPath, pauses]);
 
-  // stop session when time up
+  // stop session when time up; the ref holds this render's endSession, so the summary never uses a stale profile or session
+  const endSessionRef = useRef(endSession);
+  endSessionRef.current = endSession;
   useEffect(()=>{
-    if(phase==="active" && sessionRemaining <= 0){ endSession(); }
-  }, [phase, sessionRemaining]);
+    if(phase==="active" && (sessionRemaining <= 0 || reviewDone || formatFinished(sessionCfg, sessionAttempts))){ endSessionRef.current(); }
+  }, [phase, sessionRemaining, reviewDone, sessionCfg, sessionAttempts]);
 
   // reset per-problem state when new problem
   useEffect(()=>{
-    setElapsedProblem(0);
+    if(restoringRef.current){ restoringRef.current = false; return; }
+    setProblemClock(c=>({ acc: 0, since: c.since===null ? null : Date.now() }));
     setAnswer({});
+    setClaim(null);
     setStatus("idle");
     setExplain({reasons:[],steps:[]});
     setInputErr({});
+    setPreview({});
     setAttemptsOnThis(0);
     setRevealed(false);
+    setHints(0);
+    setScratch([]);
+    setScratchDraft(SCRATCH_DRAFT);
+    setRrefWrong([]);
     firstEditRef.current = false;
   }, [p.id]);
 
   // precompute solution and steps
-  const solved = useMemo(()=> p.mode==="2x2"? solve2(p.eqs[0], p.eqs[1]) : solve3(p.eqs), [p]);
+  const solved = useMemo(()=> solveProblem(p), [p]);
   const workedSteps = useMemo(()=>{
-    if(!solved) return [] as string[];
-    if(p.mode==="2x2") return worked2x2(p, solved as any);
-    return [
-      "Gaussian elimination:",
-      "1) Pivot row 1 → eliminate x from rows 2–3.",
-      "2) Pivot row 2 → eliminate y from row 3.",
-      "3) Back-substitute: z → y → x.",
-    ];
-  }, [p, solved]);
+    if(!solved && p.kind===undefined) return [] as string[];
+    return explainSteps(p, method);
+  }, [p, solved, method]);
+  const recommended = useMemo(()=> recommendMethod(p), [p]);
+  const pRating = useMemo(()=> problemRating(p), [p]);
+  const scratchCheck = useMemo(()=> checkScratch(p, scratch), [p, scratch]);
+  const scratchRoute = useMemo(()=> p.curve ? [] : workedRoute(p), [p]);
+  const rrefMode = !!sessionCfg.rref && !p.curve;   // answered with the reduced matrix instead of values
 
   /** ===== handlers ===== */
-  function startSession() {
+  function startSession(from: SessionConfig = config) {
+    const cfg: SessionConfig = { ...from, seed: from.seed ?? randomSeed() };
+    const startLevel = ADAPT_START[cfg.difficulty];
+    const first = pickNextProblem(cfg, 0, startLevel, reviewQueue, null);
+    if(!first) return;
+    applySetup(cfg);
+    setSessionCfg(cfg);
+    setProblemNo(0);
+    setLevel(startLevel);
+    setLevelPath(cfg.adaptive ? [startLevel] : []);
     setSessionStart(Date.now());
-    setSessionElapsed(0);
+    setSessionId(`s_${Math.random().toString(36).slice(2,9)}`);
+    setSessionClock({ acc: 0, since: Date.now() });
+    setProblemClock(CLOCK_ZERO);
+    setPaused(null);
+    setPauses({ count: 0, auto: 0, seconds: 0 });
+    setResumable(null);
     setSessionAttempts([]);
-    setP(genProblem(config.mode, config.difficulty, config.ansType));
+    setSessionHints(0);
+    setRatingPath([rating.r]);
+    setReviewDone(false);
+    setP(first.problem); setReviewId(first.reviewId);
     setPhase("active");
     setRunningProblem(true);    // start per-problem timer immediately at session start
   }
 
-  function newProblem() {
-    setP(genProblem(config.mode, config.difficulty, config.ansType));
+  /** Fills the setup form from a config (the per-session choices; method and review settings stay). */
+  function applySetup(cfg: SessionConfig){
+    setMinutes(cfg.minutes); setFormat(cfg.format ?? "timed"); if(cfg.sprintCount) setSprintCount(cfg.sprintCount); setMode(cfg.mode); setDifficulty(cfg.difficulty); setAnsType(cfg.ansType); setAdaptive(!!cfg.adaptive);
+    setMixOn(!!cfg.mix); if(cfg.mix) setMix(cfg.mix); setClassify(!!cfg.classify); setLowestTerms(!!cfg.lowestTerms);
+    setPresent(cfg.present ?? "equations"); setRref(!!cfg.rref);
+  }
+  /** Matrix presentations come with row-reduction steps, and equations go back to elimination. */
+  function choosePresentation(v: Presentation){
+    setPresent(v);
+    if(v!=="equations") setMethod("gauss-jordan");
+    else if(method==="gauss-jordan") setMethod("elimination");
+  }
+  /** The setup form's Start: what was picked becomes this profile's default. */
+  function startFromSetup(){
+    updateProfiles({ ...profiles, list: profiles.list.map(x=>x.id===profile.id ? { ...x, config } : x) });
+    startSession();
+  }
+
+  function pauseSession(){
+    if(phase!=="active" || paused) return;
+    const t = Date.now();
+    setPaused({ at: t, reason: "manual", problemRunning: runningProblem });
+    setPauses(ps=>({ ...ps, count: ps.count+1 }));
+    setSessionClock(c=>clockStop(c, t)); setProblemClock(c=>clockStop(c, t));
+  }
+  function resumeSession(){
+    if(!paused) return;
+    const t = Date.now();
+    setPauses(ps=>({ ...ps, seconds: +(ps.seconds + (t - paused.at)/1000).toFixed(1) }));
+    setSessionClock(c=>clockStart(c, t));
+    if(paused.problemRunning) setProblemClock(c=>clockStart(c, t));
+    setPaused(null);
+    setNow(t);
+  }
+
+  /** Picks up a checkpointed session, paused, with the clocks where they were at the last save. */
+  function resumeCheckpoint(cp: Checkpoint){
+    const problem = problemFromJSON(cp.problem);
+    if(problem.id!==p.id) restoringRef.current = true;
+    setSessionCfg(cp.cfg); setSessionId(cp.sessionId); setSessionStart(cp.sessionStart);
+    setProblemNo(cp.problemNo); setLevel(cp.level); setLevelPath(cp.levelPath);
+    setSessionClock({ acc: cp.sessionSeconds, since: null }); setProblemClock({ acc: cp.problemSeconds, since: null });
+    setP(problem); setReviewId(cp.reviewId); setAnswer(cp.answer); setClaim(cp.claim);
+    setAttemptsOnThis(cp.attemptsOnThis); setRevealed(cp.revealed); setHints(cp.hints);
+    setStatus("idle"); setExplain({reasons:[],steps:[]}); setInputErr({}); setPreview({}); setScratch([]); setScratchDraft(SCRATCH_DRAFT); setRrefWrong([]);
+    setSessionAttempts(cp.attempts); setSessionHints(cp.sessionHints); setRatingPath(cp.ratingPath); setReviewDone(false);
+    const t = Date.now();
+    setPaused({ at: t, reason: "restored", problemRunning: cp.problemRunning });
+    setPauses({ ...cp.pauses, count: cp.pauses.count+1 });
+    setNow(t);
+    setResumable(null);
+    setPhase("active");
+  }
+  function discardCheckpoint(){ clearCheckpoint(); setResumable(null); }
+
+  function startFromCode(){
+    const decoded = decodeSessionCode(codeInput);
+    if(!decoded){ setCodeErr("Codes look like 2MF10-4K9QZA"); return; }
+    setCodeErr("");
+    startSession({ ...config, ...decoded, review: "off" });   // a code must replay exactly, so no personal reviews
+  }
+
+  /** Builds a sheet from the setup choices, or rebuilds one from a pasted sheet code or bare seed. */
+  function generateSheet(){
+    const txt = sheetSeed.trim().toUpperCase();
+    const decoded = txt.includes("-") ? decodeSessionCode(txt) : null;
+    if(txt && !decoded && !/^[0-9A-Z]{1,6}$/.test(txt)){ setSheetErr("Enter a seed like 4K9QZA or a sheet code like 2MFS12-4K9QZA"); return; }
+    const count = decoded?.format==="sprint" && decoded.sprintCount ? Math.min(WORKSHEET_COUNT.max, decoded.sprintCount) : sheetCount;
+    setSheetErr(""); setSheetCount(count);
+    setSheet(buildWorksheet({ ...config, ...decoded, seed: decoded ? decoded.seed : txt ? parseInt(txt, 36) : undefined }, count, sheetTitle.trim() || "Worksheet"));
+  }
+
+  function newProblem(atLevel = level, queue = reviewQueue) {
+    const n = problemNo + 1;
+    const next = pickNextProblem(sessionCfg, n, atLevel, queue, reviewId);
+    if(!next){ setReviewDone(true); return; }
+    setProblemNo(n);
+    setP(next.problem); setReviewId(next.reviewId);
     setRunningProblem(true); // start immediately
   }
 
+  function updateReview(next: ReviewItem[]){ setReviewQueue(next); saveReview(next); return next; }
+
+  function skipProblem(){
+    // a skip counts as a miss for spaced repetition
+    const queue = updateReview(scheduleMiss(reviewQueue, reviewId ?? p.id, p, Date.now()));
+    newProblem(level, queue);
+  }
+
+  // regenerate revealed steps in place when the method changes
+  function changeMethod(m: SolveMethod){
+    setMethod(m);
+    setExplain(e => e.steps.length>0 && (solved || p.kind!==undefined) ? { ...e, steps: explainSteps(p, m) } : e);
+  }
+
+  function updateMix(i: number, patch: Partial<MixComponent>){
+    setMix(list=>list.map((c,j)=> j===i ? { ...c, ...patch } : c));
+  }
+  function savePreset(){
+    const name = presetName.trim(); if(!name) return;
+    const next = [...presets.filter(pr=>pr.name!==name), { name, mix }];
+    setPresets(next); savePresets(next);
+  }
+  function deletePreset(name: string){
+    const next = presets.filter(pr=>pr.name!==name);
+    setPresets(next); savePresets(next);
+  }
+
+  function takeHint(){
+    if(phase!=="active" || hints>=HINT_LEVELS) return;
+    setHints(h=>h+1);
+    setSessionHints(h=>h+1);
+    ensureProblemRunning();
+  }
+
+  function addScratchStep(){
+    if(scratchDraft.typed.trim()==="") return;
+    setScratch(list=>[...list, draftStep(scratchDraft)]);
+    setScratchDraft(d=>({ ...d, row: scratch.length, typed: "" }));   // the new row is the usual next operand
+    ensureProblemRunning();
+  }
+  function fillFromScratch(){
+    scratchCheck.values?.forEach((val,i)=>onAnswerEdit(p.variables[i], val));
+  }
+
+  function runShortcut(action: ShortcutAction){
+    switch(action){
+      case "submit": return submit();
+      case "hint": if(!revealed) takeHint(); return;
+      case "skip": return skipProblem();
+      case "pause": return paused ? resumeSession() : pauseSession();
+      case "end": return endSession();
+      case "timer": return setRunningProblem(!runningProblem);
+      case "resetTimer": return setProblemClock(c=>({ acc: 0, since: c.since===null ? null : Date.now() }));
+      case "scratchpad": if(!p.curve) setScratchOn(v=>!v); return;
+      case "answer": document.querySelector<HTMLElement>("[data-answer]")?.focus(); return;
+      case "help": setHelpOpen(o=>!o); setRecording(null); return;
+      default:
+        if(rrefMode) return;
+        if(p.kind!==undefined) chooseClaim(action);
+        else if(p.curve && action==="none") chooseClaim(claim==="none" ? null : "none");
+    }
+  }
+  /** Shortcuts on the active screen. Plain keys are left alone while typing in a field, and Enter on a button presses the button. */
+  function onShortcutKey(e: KeyboardEvent){
+    if(phase!=="active" || MODIFIER_KEYS.includes(e.key)) return;
+    if(recording){
+      if(e.key==="Tab") return;
+      e.preventDefault();
+      if(e.key!=="Escape") rebindShortcut(recording, e.key==="Backspace" ? "" : keyCombo(e));
+      setRecording(null);
+      return;
+    }
+    if(e.key==="Escape" && helpOpen){ setHelpOpen(false); return; }
+    const combo = keyCombo(e), action = (Object.keys(shortcuts) as ShortcutAction[]).find(a=>shortcuts[a]===combo);
+    const target = e.target instanceof HTMLElement ? e.target : null;
+    if(!action || (helpOpen && action!=="help") || (paused && !["pause", "end", "help"].includes(action))) return;
+    if(target?.matches("input, textarea, select, [contenteditable]") && !e.ctrlKey && !e.altKey && !e.metaKey && e.key!=="Enter") return;
+    if(e.key==="Enter" && target?.closest("button, a, select, textarea, [data-own-enter]")) return;
+    e.preventDefault();
+    runShortcut(action);
+  }
+  /** Binds a combo to one action, taking it off any other action that had it. */
+  function rebindShortcut(action: ShortcutAction, combo: string){
+    const next = Object.fromEntries((Object.keys(shortcuts) as ShortcutAction[]).map(a=>[a, a===action ? combo : shortcuts[a]===combo ? "" : shortcuts[a]])) as Shortcuts;
+    setShortcuts(next); saveShortcuts(next);
+  }
+  function resetShortcuts(){ setShortcuts(DEFAULT_SHORTCUTS); saveShortcuts(DEFAULT_SHORTCUTS); setRecording(null); }
+
   function onAnswerEdit(vname: string, val: string){
     setAnswer(prev=>({ ...prev, [vname]: val }));
     validateField(vname, val);
+    setRrefWrong(w=>w.filter(k=>k!==vname));
     if(!firstEditRef.current && phase==="active"){
       firstEditRef.current = true;
       ensureProblemRunning();   // start on first interaction
     }
   }
 
-  function parseFraction(txt:string){
-    const s=txt.trim(); if(!s) return NaN;
-    if(s.includes('/')){ const [pn,qn]=s.split('/'); const p=Number(pn), q=Number(qn); if(!isFinite(p)||!isFinite(q)||q===0) return NaN; return p/q; }
-    return Number(s);
-  }
-  function validateField(name:string, value:string){
+  function validateField(name:string, value:string, parametric = claim==="infinite"){
+    const drop = (m: Record<string,string>)=>{ const rest = { ...m }; delete rest[name]; return rest; };
+    const clear = ()=>setInputErr(drop);
+    setPreview(drop);
+    if(value.trim()==="" && p.curve){ clear(); return; }   // fewer pairs than rows is fine
     if(value.trim()===""){ setInputErr(e=>({...e,[name]:"Required"})); return; }
-    const v=parseFraction(value);
-    if(!isFinite(v)) setInputErr(e=>({...e,[name]:"Enter number or a/b"}));
-    else setInputErr(e=>{ const { [name]:_, ...rest }=e; return rest; });
+    const parsed = parseAnswer(value, parametric);
+    if("error" in parsed){ setInputErr(e=>({...e,[name]: parsed.error})); return; }
+    clear();
+    setPreview(m=>({ ...m, [name]: paramText(parsed.value) }));
   }
 
-  function submit(){
-    if(phase!=="active") return;
+  function chooseClaim(k: SystemKind | null){
+    setClaim(k);
+    setInputErr({});
+    for(const [v, val] of Object.entries(answer)) if(val!=="") validateField(v, val, k==="infinite");
+    ensureProblemRunning();
+  }
 
-    // validate
-    for(const v of p.variables){ validateField(v, (answer as any)[v]??""); }
-    if(Object.values(inputErr).length>0 || p.variables.some(v => ((answer as any)[v]??"").trim()==="")){
-      setExplain({reasons:["Please fix input errors."], steps:[]});
-      setStatus("wrong");
-      return;
-    }
+  function submit(){
+    if(phase!=="active" || paused) return;
+    const seconds = +clockRead(problemClock, Date.now()).toFixed(1);
+    const reject = (reason: string) => { setExplain({reasons:[reason], steps:[]}); setStatus("wrong"); setAnnounce(reason); };
 
-    const sol2 = p.mode==="2x2"? solve2(p.eqs[0], p.eqs[1]) : null;
-    const sol3 = p.mode==="3x3"? solve3(p.eqs) : null;
-    if(!sol2 && !sol3){
-      setExplain({reasons:["Singular system — generate a new one."], steps:[]});
-      setStatus("wrong");
+    if(p.kind!==undefined && !claim && !rrefMode){
+      reject("First say how many solutions the system has.");
       return;
     }
 
-    const x = parseFraction(answer.x??""); const y=parseFraction(answer.y??""); const z=parseFraction(answer.z??"");
-    let ok=false; let feedback: string[] = []; let correctText="";
-
-    if(sol2){
-      ok = approx(x, sol2.x) && approx(y, sol2.y);
-      if(!ok){
-        const r1=p.eqs[0].a*(x||0)+p.eqs[0].b*(y||0)-p.eqs[0].d;
-        const r2=p.eqs[1].a*(x||0)+p.eqs[1].b*(y||0)-p.eqs[1].d;
-        feedback.push(`Residuals: Eq(1) ${r1.toFixed(2)}, Eq(2) ${r2.toFixed(2)}`);
-        correctText=`x = ${fracToText(sol2.xNum,sol2.xDen)}, y = ${fracToText(sol2.yNum,sol2.yDen)}`;
+    // validate
+    if(rrefMode){
+      const keys = p.eqs.flatMap((_,i)=>Array.from({length: p.variables.length+1}, (_,j)=>rrefKey(i, j)));
+      for(const k of keys) validateField(k, answer[k]??"", false);
+      if(keys.some(k=>(answer[k]??"").trim()==="")){
+        reject("Fill in every entry of the reduced matrix.");
+        return;
       }
-    }
-    if(sol3){
-      ok = approx(x, sol3.x) && approx(y, sol3.y) && approx(z, sol3.z);
-      if(!ok){
-        const r1=p.eqs[0].a*(x||0)+p.eqs[0].b*(y||0)+p.eqs[0].c*(z||0)-p.eqs[0].d;
-        const r2=p.eqs[1].a*(x||0)+p.eqs[1].b*(y||0)+p.eqs[1].c*(z||0)-p.eqs[1].d;
-        const r3=p.eqs[2].a*(x||0)+p.eqs[2].b*(y||0)+p.eqs[2].c*(z||0)-p.eqs[2].d;
-        feedback.push(`Residuals: Eq(1) ${r1.toFixed(2)}, Eq(2) ${r2.toFixed(2)}, Eq(3) ${r3.toFixed(2)}`);
-        correctText=`x ≈ ${toRationalApprox(sol3.x)}, y ≈ ${toRationalApprox(sol3.y)}, z ≈ ${toRationalApprox(sol3.z)}`;
+    } else if(!p.curve && claim!=="none"){
+      for(const v of p.variables){ validateField(v, answer[v]??""); }
+      // inputErr only updates on the next render, so judge the fields from what was typed
+      if(p.variables.some(v => { const t = answer[v]??""; return t.trim()==="" || "error" in parseAnswer(t, claim==="infinite"); })){
+        reject("Please fix input errors.");
+        return;
       }
     }
 
+    const graded = rrefMode ? gradeRref(p, answer) : gradeAnswer(p, answer, claim, sessionCfg.lowestTerms);
+    if("error" in graded){
+      reject(graded.error);
+      return;
+    }
+    setRrefWrong(graded.wrong ?? []);
+    const { ok, residuals, feedback, correctText, unsimplified, mistakes } = graded;
+
     const nextTries = ok ? 0 : (attemptsOnThis + 1);
     const revealNow = !ok && nextTries >= 2;
     setAttemptsOnThis(nextTries);
@@ -396,30 +1211,56 @@ export default function SimulSolveSessions(){
         ? { reasons:["Nice! Your values satisfy all equations."], steps:[] }
         : { reasons: revealNow? [...feedback, "Answer revealed after two attempts."] : feedback, steps: workedSteps, correctText: revealNow? correctText : undefined }
     );
-    setStatus(ok?"correct":"wrong");
+    setStatus(ok ? "correct" : unsimplified ? "unsimplified" : "wrong");
+    setAnnounce(`Attempt ${sessionAttempts.length+1}: ${ok ? "correct" : unsimplified ? "correct but not simplified" : "not right"}.${ok ? "" : ` ${feedback[0] ?? ""}`}${revealNow ? ` The answer is ${correctText}.` : ""}`);
 
     // record attempt for session & lifetime
     const attempt: AttemptRecord = {
       ts: Date.now(),
-      seconds: elapsedProblem,
+      seconds,
       correct: ok,
-      difficulty: config.difficulty,
-      mode: config.mode,
+      difficulty: p.difficulty,
+      mode: p.mode,
+      ansType: p.ansType,
+      rating: pRating,
+      ...(sessionCfg.adaptive ? { level } : {}),
+      ...(reviewId ? { review: true } : {}),
+      ...(unsimplified ? { unsimplified: true } : {}),
+      ...(mistakes ? { mistakes: [...new Set(mistakes.map(m=>m.kind))] } : {}),
+      ...(hints>0 ? { hints } : {}),
+      ...(scratch.length>0 ? { scratch: { steps: scratch.length, route: scratchRoute.length, ...(scratchCheck.firstInvalid!==null ? { firstInvalid: scratchCheck.firstInvalid } : {}) } } : {}),
     };
     setSessionAttempts(a => [...a, attempt]);
+    saveHistoryAttempt({ ...attempt, sessionId, problem: problemToJSON(p), answer: { ...answer, ...(claim ? { kind: claim } : {}) }, residuals })
+      .catch(()=>setHistoryErr("Could not save this attempt to history."));
+
+    // spaced repetition: a reveal or a slip on a review item is a miss; a clean, unhinted review solve moves it up a box
+    let queue = reviewQueue;
+    if(revealNow) queue = updateReview(scheduleMiss(reviewQueue, reviewId ?? p.id, p, Date.now()));
+    else if(ok && reviewId && !revealed){
+      queue = updateReview(attemptsOnThis===0 && hints===0 ? schedulePass(reviewQueue, reviewId, Date.now()) : scheduleMiss(reviewQueue, reviewId, p, Date.now()));
+    }
+
+    const nextLevel = sessionCfg.adaptive ? adaptLevel(level, ok, seconds, p.mode) : level;
+    if(sessionCfg.adaptive){ setLevel(nextLevel); setLevelPath(path => [...path, nextLevel]); }
 
     const nextLife: LifetimeStats = {
       totalAttempts: lifetime.totalAttempts + 1,
       totalCorrect: lifetime.totalCorrect + (ok?1:0),
-      totalTimeSec: +(lifetime.totalTimeSec + elapsedProblem).toFixed(1),
+      totalTimeSec: +(lifetime.totalTimeSec + seconds).toFixed(1),
     };
     setLifetime(nextLife); saveLifetime(nextLife);
 
-    // stop problem timer on correct; load next problem after a short delay
-    if(ok){
-      setRunningProblem(false);
-      setTimeout(()=> newProblem(), 200);
+    // only the first try at a problem is rated, so retries after feedback do not count twice
+    if(attemptsOnThis===0){
+      const nextRating = rateAttempt(rating, attempt, attempt.ts);
+      setRating(nextRating); saveRating(nextRating);
+      setRatingPath(path => [...path, nextRating.r]);
     }
+
+    // stop problem timer on correct; load next problem after a short delay unless that answer ended a sprint or survival run
+    if(ok) setRunningProblem(false);
+    if(ok && !formatFinished(sessionCfg, [...sessionAttempts, attempt])) setTimeout(()=> newProblem(nextLevel, queue), 200);
   }
 
   function endSession() {
@@ -428,14 +1269,18 @@ export default function SimulSolveSessions(){
     const correct = sessionAttempts.filter(a=>a.correct).length;
     const accuracy = attempts ? (100*correct/attempts) : 0;
     const avgTime = attempts ? (sessionAttempts.reduce((s,a)=>s+a.seconds,0) / attempts) : 0;
-    const avgAdj  = attempts ? (sessionAttempts.reduce((s,a)=>s + a.seconds/DIFF_WEIGHT[a.difficulty],0) / attempts) : 0;
-    const actual = sessionElapsed;
+    const avgAdj  = attempts ? (sessionAttempts.reduce((s,a)=>s + adjustedSeconds(a),0) / attempts) : 0;
+    const score = sessionAttempts.reduce((s,a)=>s + attemptPoints(a), 0);
+    const t = Date.now();
+    const actual = +clockRead(sessionClock, t).toFixed(1);
+    const pausedFor = { ...pauses, seconds: +(pauses.seconds + (paused ? (t - paused.at)/1000 : 0)).toFixed(1) };
     const ppm = actual>0 ? (attempts / (actual/60)) : 0;
+    const mistakes = countMistakes(sessionAttempts.map(a=>a.mistakes));
 
     const summary: SessionSummary = {
-      id: `s_${Math.random().toString(36).slice(2,9)}`,
+      id: sessionId,
       startedAt: sessionStart,
-      durationMin: config.minutes,
+      durationMin: timed ? sessionCfg.minutes : 0,
       actualSeconds: +actual.toFixed(1),
       attempts,
       correct,
@@ -443,25 +1288,179 @@ export default function SimulSolveSessions(){
       avgTimePerAttempt: +avgTime.toFixed(2),
       avgTimeAdj: +avgAdj.toFixed(2),
       problemsPerMin: +ppm.toFixed(2),
-      config: { ...config },
+      config: { ...sessionCfg },
+      ...(sessionCfg.adaptive ? { levelPath } : {}),
+      ...(Object.keys(mistakes).length>0 ? { mistakes } : {}),
+      score: +score.toFixed(2),
+      hints: sessionHints,
+      ...(sessionCfg.format==="sprint" && correct>=(sessionCfg.sprintCount ?? 0) ? { sprintSeconds: +actual.toFixed(1) } : {}),
+      ...(sessionCfg.format==="survival" ? { survived: correct } : {}),
+      ...(sessionCfg.mix ? { components: componentStats(sessionCfg.mix, sessionAttempts) } : {}),
+      ...(ratingPath.length>1 ? { ratingPath } : {}),
+      ...(pausedFor.count>0 ? { pauses: pausedFor } : {}),
     };
 
-    const next = [...pastSessions, summary];
-    setPastSessions(next);
-    saveSessions(next);
+    setPastSessions(list => [...list, summary]);
+    saveHistorySession(summary).catch(()=>setHistoryErr("Could not save this session to history."));
 
+    clearCheckpoint();
     setPhase("summary");
-    setRunningProblem(false);
+    setSessionClock(c=>clockStop(c, t)); setProblemClock(c=>clockStop(c, t));
+    setPaused(null);
+  }
+
+  /** The duel screen starts with the active profile against the next one on the device. */
+  function openDuel(){
+    setDuelSetup(d=>({ ...d, players: [profile.id, profiles.list.find(x=>x.id!==profile.id)?.id ?? ""] }));
+    setDuel(null);
+    setPhase("duel");
+  }
+  /** Both players get problems 0…N−1 of one seeded draw of the setup choices, one answer each, with no hints or reviews. */
+  function startDuel(){
+    const [a, b] = duelSetup.players.map(id=>profiles.list.find(x=>x.id===id));
+    if(!a || !b || a.id===b.id) return;
+    const seed = randomSeed(), t = Date.now(), side = duelSetup.layout==="side";
+    const cfg: SessionConfig = { ...config, format: "sprint", sprintCount: duelSetup.count, adaptive: false, review: "off", rref: false, seed };
+    const player = (x: Profile): DuelPlayer => ({ profileId: x.id, name: x.name, sessionId: `s_${Math.random().toString(36).slice(2,9)}`, problemNo: 0, clock: side ? { acc: 0, since: t } : CLOCK_ZERO, attempts: [], last: null });
+    setDuel({
+      cfg, layout: duelSetup.layout, problems: Array.from({length: duelSetup.count}, (_,i)=>serveProblem(cfg, seed, i, ADAPT_START[cfg.difficulty])),
+      startedAt: t, players: [player(a), player(b)], turn: 0, ready: side, finished: false,
+    });
+  }
+  /** Taking turns: the next player has the device, so their clock starts. */
+  function duelReady(){
+    if(!duel) return;
+    const t = Date.now();
+    setDuel({ ...duel, ready: true, players: duel.players.map((x,i)=>i===duel.turn ? { ...x, clock: { acc: 0, since: t } } : x) as [DuelPlayer, DuelPlayer] });
+  }
+  /** Grades one player's answer and moves them on, right or wrong; returns an input error instead when the answer cannot be read. */
+  function submitDuel(i: 0 | 1, answer: Record<string,string>, claim: SystemKind | null): string | null {
+    if(!duel || duel.finished) return null;
+    const me = duel.players[i], p = duel.problems[me.problemNo];
+    if(!p) return null;
+    if(p.kind!==undefined && claim===null) return "First say how many solutions the system has.";
+    const keys = claim==="none" ? [] : p.curve ? PAIR_KEYS.flat().filter(k=>(answer[k] ?? "").trim()!=="") : p.variables;
+    for(const k of keys){
+      if((answer[k] ?? "").trim()==="") return `${k} is still blank.`;
+      const parsed = parseAnswer(answer[k], claim==="infinite");
+      if("error" in parsed) return `${k}: ${parsed.error}`;
+    }
+    const graded = gradeAnswer(p, answer, claim, duel.cfg.lowestTerms);
+    if("error" in graded) return graded.error;
+    const t = Date.now(), seconds = +clockRead(me.clock, t).toFixed(1), done = me.problemNo+1>=duel.problems.length;
+    const attempt: AttemptDetail = {
+      ts: t, seconds, correct: graded.ok, difficulty: p.difficulty, mode: p.mode, ansType: p.ansType, rating: problemRating(p),
+      ...(graded.unsimplified ? { unsimplified: true } : {}),
+      ...(graded.mistakes ? { mistakes: [...new Set(graded.mistakes.map(m=>m.kind))] } : {}),
+      sessionId: me.sessionId, problem: problemToJSON(p), answer: { ...answer, ...(claim ? { kind: claim } : {}) }, residuals: graded.residuals,
+    };
+    const moved: DuelPlayer = {
+      ...me, problemNo: me.problemNo+1, attempts: [...me.attempts, attempt], clock: done || duel.layout==="turns" ? CLOCK_ZERO : { acc: 0, since: t },
+      // no correct answer here: the other player may not have reached this problem yet
+      last: { ok: graded.ok, text: `Problem ${me.problemNo+1}: ${graded.ok ? "correct" : graded.unsimplified ? "right values, not simplified" : "wrong"}.` },
+    };
+    const players = (i===0 ? [moved, duel.players[1]] : [duel.players[0], moved]) as [DuelPlayer, DuelPlayer];
+    const next: Duel = { ...duel, players, ...(duel.layout==="turns" ? { turn: (1-i) as 0 | 1, ready: false } : {}) };
+    if(players.every(x=>x.problemNo>=duel.problems.length)) finishDuel(next); else setDuel(next);
+    return null;
+  }
+  /** Ends the duel (unanswered problems count for nothing) and saves each side to that player's own history. */
+  function finishDuel(d: Duel){
+    const t = Date.now();
+    const players = d.players.map(x=>({ ...x, clock: clockStop(x.clock, t) })) as [DuelPlayer, DuelPlayer];
+    setDuel({ ...d, players, finished: true });
+    players.forEach((me, i)=>{
+      const summary = duelSummary(d, me, players[1-i]);
+      if(me.profileId===activeProfile) setPastSessions(list=>[...list, summary]);
+      Promise.all([saveHistorySession(summary, me.profileId), ...me.attempts.map(a=>saveHistoryAttempt(a, me.profileId))])
+        .catch(()=>setHistoryErr(`Could not save the duel to ${me.name}'s history.`));
+    });
+  }
+
+  function openDetail(session: SessionSummary){
+    setDetail({ session, attempts: null });
+    setPhase("detail");
+    loadHistoryAttempts(session.id)
+      .then(attempts=>setDetail(d=> d && d.session.id===session.id ? { session, attempts } : d))
+      .catch(()=>setDetail(d=> d && d.session.id===session.id ? { session, attempts: [] } : d));
+  }
+
+  const stamp = () => new Date().toISOString().slice(0,10);
+  async function exportJSON(name = `simulsolve-${stamp()}.json`){
+    const bundle = buildExport(lifetime, pastSessions, await loadAllHistoryAttempts(), reviewQueue);
+    downloadFile(name, JSON.stringify(bundle, null, 1), "application/json");
+  }
+  async function exportCSV(){
+    downloadFile(`simulsolve-sessions-${stamp()}.csv`, sessionsCsv(pastSessions), "text/csv");
+    downloadFile(`simulsolve-attempts-${stamp()}.csv`, attemptsCsv(await loadAllHistoryAttempts()), "text/csv");
+  }
+  async function pickImportFile(file: File){
+    setPendingImport(null);
+    const res = parseImport(await file.text());
+    if("errors" in res){ setDataMsg({ ok: false, lines: [`${file.name} was not imported:`, ...res.errors] }); return; }
+    const have = new Set(pastSessions.map(s=>s.id));
+    setPendingImport({ name: file.name, data: res.data, duplicates: res.data.sessions.filter(s=>have.has(s.id)).length });
+    setDataMsg(null);
+  }
+  async function applyImport(replace: boolean){
+    if(!pendingImport) return;
+    const plan = planImport(pendingImport.data, { sessions: pastSessions, review: reviewQueue, lifetime }, replace);
+    try{ await writeHistory(plan.sessions, plan.attempts, replace); }
+    catch{ setDataMsg({ ok: false, lines: ["Could not write the imported history; nothing was changed."] }); return; }
+    setPastSessions(await loadHistorySessions());
+    updateReview(plan.review);
+    setLifetime(plan.lifetime); saveLifetime(plan.lifetime);
+    setPendingImport(null);
+    setDataMsg({ ok: true, lines: [replace ? `Replaced all data with ${plan.added} session(s) from ${pendingImport.name}.` : `Added ${plan.added} session(s); skipped ${plan.duplicates} already present.`] });
+  }
+
+  function updateProfiles(next: ProfileList){ setProfiles(next); saveProfiles(next); }
+  /** Swaps in everything stored for a profile: stats, review queue, rating, unfinished session, history and setup defaults. */
+  function switchProfile(id: string, list = profiles.list){
+    const next = list.find(x=>x.id===id);
+    if(!next) return;
+    selectProfile(id);
+    updateProfiles({ active: id, list });
+    setLifetime(loadLifetime()); setReviewQueue(loadReview()); setRating(loadRating()); setResumable(loadCheckpoint());
+    const cfg = next.config ?? DEFAULT_SETUP;
+    applySetup(cfg); setMethod(cfg.method ?? "elimination"); setReview(cfg.review ?? "mix"); setReviewAs(cfg.reviewAs ?? "fresh");
+    setPendingImport(null); setDataMsg(null); setHistoryErr(""); setProfileEdit(null);
+    setPastSessions([]);
+    loadHistorySessions()
+      .then(list=>{ if(activeProfile===id) setPastSessions(list); })
+      .catch(()=>setHistoryErr("Session history is unavailable in this browser."));
+  }
+  function saveProfileEdit(){
+    const name = profileEdit?.name.trim();
+    if(!profileEdit || !name || profiles.list.some(x=>x.name===name && (!profileEdit.rename || x.id!==profile.id))) return;
+    if(profileEdit.rename){ updateProfiles({ ...profiles, list: profiles.list.map(x=>x.id===profile.id ? { ...x, name } : x) }); setProfileEdit(null); return; }
+    const created: Profile = { id: `p_${Math.random().toString(36).slice(2,9)}`, name, createdAt: Date.now() };
+    switchProfile(created.id, [...profiles.list, created]);
+  }
+  async function deleteProfile(){
+    if(profiles.list.length<=1) return;
+    if(!window.confirm(`Delete the profile "${profile.name}" with all its sessions, review items, lifetime stats and rating? This cannot be undone.`)) return;
+    const gone = profile.id, rest = profiles.list.filter(x=>x.id!==gone);
+    switchProfile(rest[0].id, rest);
+    try{ await deleteProfileData(gone); }
+    catch{ setHistoryErr("The profile was removed, but some of its history could not be deleted."); }
   }
 
-  function resetAllData(){
-    setPastSessions([]); saveSessions([]);
+  async function resetAllData(){
+    if(!window.confirm(`Delete all sessions, attempts, review items, lifetime stats and the rating of "${profile.name}"? A backup file will be downloaded first.`)) return;
+    try{ await exportJSON(`simulsolve-backup-${stamp()}.json`); }
+    catch{ if(!window.confirm("The backup could not be created. Delete everything anyway?")) return; }
+    setPastSessions([]); clearHistory().catch(()=>setHistoryErr("Could not clear history."));
+    updateReview([]);
     const cleared:LifetimeStats={totalAttempts:0,totalCorrect:0,totalTimeSec:0};
     setLifetime(cleared); saveLifetime(cleared);
+    const fresh = freshRating(Date.now());
+    setRating(fresh); saveRating(fresh);
   }
 
   /** ====== UI ====== */
   if(phase === "setup"){
+    const dueNow = dueReviews(reviewQueue, Date.now()).length;
     return (
       <div className="min-h-screen w-full text-neutral-100 bg-neutral-950">
         <div className="max-w-xl mx-auto p-6 space-y-6">
@@ -470,51 +1469,250 @@ export default function SimulSolveSessions(){
             <h1 className="text-xl font-semibold">SimulSolve — Session Mode</h1>
           </header>
 
+          <section className="rounded-2xl border border-neutral-800 bg-neutral-900 p-4 space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <UserCircle className="w-4 h-4 text-neutral-400"/>
+              <span className="text-sm text-neutral-300">Profile</span>
+              <select value={profile.id} onChange={e=>switchProfile(e.target.value)} aria-label="Profile" className="bg-black/30 border border-neutral-800 rounded-lg px-2 py-1 text-sm">
+                {profiles.list.map(x=>(<option key={x.id} value={x.id}>{x.name}</option>))}
+              </select>
+              <button onClick={()=>setProfileEdit({ rename: false, name: "" })} className="px-2 py-1 rounded-lg border border-neutral-800 hover:bg-black/30 text-sm">New</button>
+              <button onClick={()=>setProfileEdit({ rename: true, name: profile.name })} className="px-2 py-1 rounded-lg border border-neutral-800 hover:bg-black/30 text-sm">Rename</button>
+              <button onClick={deleteProfile} disabled={profiles.list.length<=1} className="ml-auto text-xs text-red-300 hover:text-red-200 disabled:opacity-40">Delete</button>
+            </div>
+            {profileEdit && (
+              <div className="flex items-center gap-2">
+                <input autoFocus value={profileEdit.name} onChange={e=>setProfileEdit({ ...profileEdit, name: e.target.value })} onKeyDown={e=>{ if(e.key==="Enter") saveProfileEdit(); if(e.key==="Escape") setProfileEdit(null); }}
+                  placeholder="Learner name" className="flex-1 bg-black/30 border border-neutral-800 rounded-lg px-3 py-1.5 text-sm"/>
+                <button onClick={saveProfileEdit} disabled={!profileEdit.name.trim()} className="px-3 py-1.5 rounded-lg border border-blue-400/50 bg-blue-500/10 hover:bg-blue-500/20 text-blue-200 text-sm disabled:opacity-40">{profileEdit.rename ? "Rename" : "Create"}</button>
+                <button onClick={()=>setProfileEdit(null)} className="px-3 py-1.5 rounded-lg border border-neutral-800 hover:bg-black/30 text-sm">Cancel</button>
+              </div>
+            )}
+            {profileEdit && profiles.list.some(x=>x.name===profileEdit.name.trim() && (!profileEdit.rename || x.id!==profile.id)) && <div className="text-xs text-red-400">Another profile already has that name.</div>}
+          </section>
+
+          {resumable && (
+            <section className="rounded-2xl border border-amber-400/40 bg-amber-500/5 p-4 space-y-2">
+              <div className="text-sm text-amber-200">Unfinished session from {new Date(resumable.sessionStart).toLocaleString()}</div>
+              <div className="text-xs text-neutral-400">
+                {configText(resumable.cfg)} • {formatText(resumable.cfg)} • {resumable.attempts.filter(a=>a.correct).length}/{resumable.attempts.length} correct • {Math.floor(resumable.sessionSeconds/60)}:{String(Math.floor(resumable.sessionSeconds%60)).padStart(2,"0")} played
+              </div>
+              <div className="flex gap-2">
+                <button onClick={()=>resumeCheckpoint(resumable)} className="px-3 py-1.5 rounded-lg border border-blue-400/50 bg-blue-500/10 hover:bg-blue-500/20 text-blue-200 text-sm">Resume</button>
+                <button onClick={discardCheckpoint} className="px-3 py-1.5 rounded-lg border border-neutral-800 hover:bg-black/30 text-sm">Discard</button>
+              </div>
+            </section>
+          )}
+
           <section className="rounded-2xl border border-neutral-800 bg-neutral-900 p-4 space-y-4">
             <div className="text-sm text-neutral-300">Session setup</div>
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
               <label className="flex items-center justify-between rounded-xl border border-neutral-800 bg-black/30 px-3 py-2">
-                <span className="text-sm text-neutral-300 flex items-center gap-2"><Clock className="w-4 h-4"/> Length (min)</span>
-                <input type="number" min={3} max={90} value={minutes} onChange={e=>setMinutes(Math.max(3, Math.min(90, Number(e.target.value||10))))} className="w-24 bg-black/30 border border-neutral-800 rounded-lg px-3 py-2 text-right"/>
+                <span className="text-sm text-neutral-300">Format</span>
+                <select value={format} onChange={e=>setFormat(e.target.value as SessionFormat)} className="bg-black/30 border border-neutral-800 rounded-lg px-3 py-2">
+                  {(Object.keys(FORMAT_LABEL) as SessionFormat[]).map(f=>(<option key={f} value={f}>{FORMAT_LABEL[f]}</option>))}
+                </select>
               </label>
+              {format==="timed" && (
+                <label className="flex items-center justify-between rounded-xl border border-neutral-800 bg-black/30 px-3 py-2">
+                  <span className="text-sm text-neutral-300 flex items-center gap-2"><Clock className="w-4 h-4"/> Length (min)</span>
+                  <input type="number" min={3} max={90} value={minutes} onChange={e=>setMinutes(Math.max(3, Math.min(90, Number(e.target.value||10))))} className="w-24 bg-black/30 border border-neutral-800 rounded-lg px-3 py-2 text-right"/>
+                </label>
+              )}
+              {format==="sprint" && (
+                <label className="flex items-center justify-between rounded-xl border border-neutral-800 bg-black/30 px-3 py-2">
+                  <span className="text-sm text-neutral-300">Problems</span>
+                  <input type="number" min={3} max={50} value={sprintCount} onChange={e=>setSprintCount(Math.max(3, Math.min(50, Number(e.target.value||10))))} className="w-24 bg-black/30 border border-neutral-800 rounded-lg px-3 py-2 text-right"/>
+                </label>
+              )}
+              {(format==="survival" || format==="untimed") && (
+                <div className="flex items-center rounded-xl border border-neutral-800 bg-black/30 px-3 py-2 text-xs text-neutral-400">
+                  {format==="survival" ? `Ends after ${SURVIVAL_LIVES} wrong answers.` : "No clock — end the session when you like."}
+                </div>
+              )}
               <label className="flex items-center justify-between rounded-xl border border-neutral-800 bg-black/30 px-3 py-2">
                 <span className="text-sm text-neutral-300">Mode</span>
-                <select value={mode} onChange={e=>setMode(e.target.value as Mode)} className="bg-black/30 border border-neutral-800 rounded-lg px-3 py-2">
-                  <option value="2x2">2×2</option>
-                  <option value="3x3">3×3</option>
+                <select value={mode} disabled={adaptive || mixOn} onChange={e=>setMode(e.target.value as Mode)} className="disabled:opacity-40 bg-black/30 border border-neutral-800 rounded-lg px-3 py-2">
+                  {(Object.keys(MODE_LABEL) as Mode[]).map(m=>(<option key={m} value={m}>{MODE_LABEL[m]}</option>))}
                 </select>
               </label>
               <label className="flex items-center justify-between rounded-xl border border-neutral-800 bg-black/30 px-3 py-2">
-                <span className="text-sm text-neutral-300">Difficulty</span>
-                <select value={difficulty} onChange={e=>setDifficulty(e.target.value as Difficulty)} className="bg-black/30 border border-neutral-800 rounded-lg px-3 py-2">
+                <span className="text-sm text-neutral-300">{adaptive? "Starting difficulty" : "Difficulty"}</span>
+                <select value={difficulty} disabled={mixOn} onChange={e=>setDifficulty(e.target.value as Difficulty)} className="disabled:opacity-40 bg-black/30 border border-neutral-800 rounded-lg px-3 py-2">
                   <option>easy</option><option>medium</option><option>hard</option>
                 </select>
               </label>
               <label className="flex items-center justify-between rounded-xl border border-neutral-800 bg-black/30 px-3 py-2">
                 <span className="text-sm text-neutral-300">Answers</span>
-                <select value={ansType} onChange={e=>setAnsType(e.target.value as AnswerType)} className="bg-black/30 border border-neutral-800 rounded-lg px-3 py-2">
+                <select value={ansType} disabled={adaptive || mixOn} onChange={e=>setAnsType(e.target.value as AnswerType)} className="disabled:opacity-40 bg-black/30 border border-neutral-800 rounded-lg px-3 py-2">
                   <option value="fractions">fractions</option>
                   <option value="integers">integers</option>
                 </select>
               </label>
+              <label className="flex items-center justify-between rounded-xl border border-neutral-800 bg-black/30 px-3 py-2 sm:col-span-2">
+                <span className="text-sm text-neutral-300">Worked method</span>
+                <select value={method} onChange={e=>setMethod(e.target.value as SolveMethod)} className="bg-black/30 border border-neutral-800 rounded-lg px-3 py-2">
+                  {(Object.keys(METHOD_LABEL) as SolveMethod[]).map(m=>(<option key={m} value={m}>{METHOD_LABEL[m]}</option>))}
+                </select>
+              </label>
+              <label className="flex items-center justify-between rounded-xl border border-neutral-800 bg-black/30 px-3 py-2">
+                <span className="text-sm text-neutral-300">Review</span>
+                <select value={review} onChange={e=>setReview(e.target.value as ReviewMode)} className="bg-black/30 border border-neutral-800 rounded-lg px-3 py-2">
+                  <option value="mix">mix in due items</option>
+                  <option value="only">review only</option>
+                  <option value="off">off</option>
+                </select>
+              </label>
+              <label className="flex items-center justify-between rounded-xl border border-neutral-800 bg-black/30 px-3 py-2">
+                <span className="text-sm text-neutral-300">Replay as</span>
+                <select value={reviewAs} disabled={review==="off"} onChange={e=>setReviewAs(e.target.value as ReviewAs)} className="disabled:opacity-40 bg-black/30 border border-neutral-800 rounded-lg px-3 py-2">
+                  <option value="fresh">fresh variant</option>
+                  <option value="same">same system</option>
+                </select>
+              </label>
+              <div className="text-xs text-neutral-500 sm:col-span-2 -mt-1">
+                Review queue: {reviewQueue.length} item{reviewQueue.length===1?"":"s"}, {dueNow} due now
+              </div>
+              <label className="flex items-center gap-3 rounded-xl border border-neutral-800 bg-black/30 px-3 py-2 sm:col-span-2">
+                <input type="checkbox" checked={adaptive && !mixOn} disabled={mixOn} onChange={e=>setAdaptive(e.target.checked)}/>
+                <span className="text-sm text-neutral-300">Adaptive difficulty</span>
+                <span className="text-xs text-neutral-500 ml-auto">tunes coefficients, fractions and 3×3 share to ~{Math.round(ADAPT.targetAccuracy*100)}% accuracy</span>
+              </label>
+              <div className="rounded-xl border border-neutral-800 bg-black/30 px-3 py-2 sm:col-span-2 space-y-2">
+                <label className="flex items-center gap-3">
+                  <input type="checkbox" checked={mixOn} onChange={e=>setMixOn(e.target.checked)}/>
+                  <span className="text-sm text-neutral-300">Mixed pool</span>
+                  <span className="text-xs text-neutral-500 ml-auto">draws each problem from a weighted mix of kinds</span>
+                </label>
+                {mixOn && <>
+                  {mix.map((c,i)=>(
+                    <div key={i} className="flex flex-wrap items-center gap-2 text-sm">
+                      <select value={c.mode} onChange={e=>updateMix(i, { mode: e.target.value as Mode })} aria-label="Mode" className="bg-black/30 border border-neutral-800 rounded-lg px-2 py-1">
+                        {(Object.keys(MODE_LABEL) as Mode[]).map(m=>(<option key={m} value={m}>{MODE_LABEL[m]}</option>))}
+                      </select>
+                      <select value={c.difficulty} onChange={e=>updateMix(i, { difficulty: e.target.value as Difficulty })} aria-label="Difficulty" className="bg-black/30 border border-neutral-800 rounded-lg px-2 py-1">
+                        <option>easy</option><option>medium</option><option>hard</option>
+                      </select>
+                      <select value={c.ansType} onChange={e=>updateMix(i, { ansType: e.target.value as AnswerType })} aria-label="Answers" className="bg-black/30 border border-neutral-800 rounded-lg px-2 py-1">
+                        <option value="fractions">fractions</option>
+                        <option value="integers">integers</option>
+                      </select>
+                      <input type="number" min={1} max={100} value={c.weight} onChange={e=>updateMix(i, { weight: Math.max(1, Math.min(100, Number(e.target.value||1))) })} aria-label="Weight" className="w-16 bg-black/30 border border-neutral-800 rounded-lg px-2 py-1 text-right"/>
+                      <span className="text-xs text-neutral-500 tabular-nums w-10">{Math.round(100*mixShare(mix, i))}%</span>
+                      <button onClick={()=>setMix(list=>list.filter((_,j)=>j!==i))} disabled={mix.length<=1} className="ml-auto text-xs text-red-300 hover:text-red-200 disabled:opacity-40">Remove</button>
+                    </div>
+                  ))}
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <button onClick={()=>setMix(list=>[...list, { mode, difficulty, ansType, weight: 50 }])} disabled={mix.length>=6} className="px-2 py-1 rounded-lg border border-neutral-800 hover:bg-black/30 disabled:opacity-40">Add kind</button>
+                    <select value="" onChange={e=>{ const pr = presets.find(x=>x.name===e.target.value); if(pr){ setMix(pr.mix); setPresetName(pr.name); } }} aria-label="Load preset" className="ml-auto bg-black/30 border border-neutral-800 rounded-lg px-2 py-1">
+                      <option value="">{presets.length>0 ? "Load preset…" : "No presets yet"}</option>
+                      {presets.map(pr=>(<option key={pr.name} value={pr.name}>{pr.name}</option>))}
+                    </select>
+                    <input value={presetName} onChange={e=>setPresetName(e.target.value)} placeholder="Preset name" className="w-32 bg-black/30 border border-neutral-800 rounded-lg px-2 py-1"/>
+                    <button onClick={savePreset} disabled={!presetName.trim()} className="px-2 py-1 rounded-lg border border-neutral-800 hover:bg-black/30 disabled:opacity-40">Save</button>
+                    {presets.some(pr=>pr.name===presetName.trim()) && <button onClick={()=>deletePreset(presetName.trim())} className="text-xs text-red-300 hover:text-red-200">Delete</button>}
+                  </div>
+                </>}
+              </div>
+              <label className="flex items-center gap-3 rounded-xl border border-neutral-800 bg-black/30 px-3 py-2 sm:col-span-2">
+                <input type="checkbox" checked={classify} onChange={e=>setClassify(e.target.checked)}/>
+                <span className="text-sm text-neutral-300">Classify systems</span>
+                <span className="text-xs text-neutral-500 ml-auto">mixes in systems with no solution or infinitely many</span>
+              </label>
+              <label className="flex items-center gap-3 rounded-xl border border-neutral-800 bg-black/30 px-3 py-2 sm:col-span-2">
+                <input type="checkbox" checked={lowestTerms} onChange={e=>setLowestTerms(e.target.checked)}/>
+                <span className="text-sm text-neutral-300">Lowest terms</span>
+                <span className="text-xs text-neutral-500 ml-auto">6/8 or 0.75 counts as correct but not simplified</span>
+              </label>
+              <label className="flex items-center justify-between rounded-xl border border-neutral-800 bg-black/30 px-3 py-2">
+                <span className="text-sm text-neutral-300">Show systems as</span>
+                <select value={present} onChange={e=>choosePresentation(e.target.value as Presentation)} className="bg-black/30 border border-neutral-800 rounded-lg px-3 py-2">
+                  {(Object.keys(PRESENT_LABEL) as Presentation[]).map(v=>(<option key={v} value={v}>{PRESENT_LABEL[v]}</option>))}
+                </select>
+              </label>
+              <label className="flex items-center gap-3 rounded-xl border border-neutral-800 bg-black/30 px-3 py-2">
+                <input type="checkbox" checked={rref && present!=="equations"} disabled={present==="equations"} onChange={e=>setRref(e.target.checked)}/>
+                <span className="text-sm text-neutral-300">RREF answers</span>
+                <span className="text-xs text-neutral-500 ml-auto">enter the reduced matrix</span>
+              </label>
             </div>
 
-            <button onClick={startSession} className="w-full mt-2 px-4 py-3 rounded-xl border border-blue-400/50 bg-blue-500/10 hover:bg-blue-500/20 text-blue-200 flex items-center justify-center gap-2">
-              <Sparkles className="w-4 h-4"/> Start session
+            <button onClick={startFromSetup} disabled={review==="only" && dueNow===0} className="w-full mt-2 px-4 py-3 rounded-xl border border-blue-400/50 bg-blue-500/10 hover:bg-blue-500/20 text-blue-200 flex items-center justify-center gap-2 disabled:opacity-40">
+              <Sparkles className="w-4 h-4"/> {review==="only" ? (dueNow>0 ? `Review ${dueNow} due item${dueNow===1?"":"s"}` : "Nothing due for review") : "Start session"}
             </button>
+
+            <div className="flex items-center gap-2">
+              <input value={codeInput} onChange={e=>{ setCodeInput(e.target.value); setCodeErr(""); }} onKeyDown={e=>{ if(e.key==="Enter") startFromCode(); }}
+                placeholder="Session code, e.g. 2MF10-4K9QZA" className="flex-1 bg-black/30 border border-neutral-800 rounded-lg px-3 py-2 font-mono text-sm uppercase"/>
+              <button onClick={startFromCode} className="px-3 py-2 rounded-lg border border-neutral-800 hover:bg-black/30 text-sm">Start from code</button>
+            </div>
+            {codeErr && <div className="text-xs text-red-400">{codeErr}</div>}
+            <div className="flex flex-wrap gap-4">
+              <button onClick={()=>setPhase("worksheet")} className="text-xs text-blue-300 hover:text-blue-200">Printable worksheet for these settings…</button>
+              <button onClick={openDuel} className="text-xs text-blue-300 hover:text-blue-200">Duel on this device with these settings…</button>
+            </div>
+          </section>
+
+          {historyErr && <div className="text-xs text-red-400">{historyErr}</div>}
+
+          <section className="rounded-2xl border border-neutral-800 bg-neutral-900 p-4 space-y-2">
+            <div className="flex items-baseline gap-2">
+              <div className="text-sm text-neutral-300">Skill rating</div>
+              <div className="text-lg tabular-nums">{rating.r}</div>
+              <div className="text-xs text-neutral-500">± {Math.round(2*rating.rd)}{rating.history.length===0 && " • provisional until your first attempt"}</div>
+            </div>
+            {rating.history.length>1 && <RatingChart values={rating.history.map(h=>h.r)}/>}
+          </section>
+
+          <section className="rounded-2xl border border-neutral-800 bg-neutral-900 p-4 space-y-3">
+            <div className="text-sm text-neutral-300">Data</div>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <button onClick={()=>exportJSON()} className="px-3 py-2 rounded-lg border border-neutral-800 hover:bg-black/30">Export JSON</button>
+              <button onClick={exportCSV} className="px-3 py-2 rounded-lg border border-neutral-800 hover:bg-black/30">Export CSV</button>
+              <label className="px-3 py-2 rounded-lg border border-neutral-800 hover:bg-black/30 cursor-pointer">
+                Import…
+                <input type="file" accept=".json,application/json" className="hidden" onChange={e=>{ const f = e.target.files?.[0]; e.target.value = ""; if(f) pickImportFile(f); }}/>
+              </label>
+            </div>
+            {pendingImport && (
+              <div className="rounded-xl border border-neutral-800 bg-black/30 p-3 text-sm space-y-2">
+                <div className="text-neutral-300">
+                  {pendingImport.name}: {pendingImport.data.sessions.length} session(s), {pendingImport.data.attempts.length} attempt(s), {pendingImport.data.review.length} review item(s)
+                  {pendingImport.duplicates>0 && <span className="text-neutral-500"> • {pendingImport.duplicates} already here</span>}
+                </div>
+                <div className="flex gap-2">
+                  <button onClick={()=>applyImport(false)} className="px-3 py-1.5 rounded-lg border border-blue-400/50 bg-blue-500/10 hover:bg-blue-500/20 text-blue-200">Merge</button>
+                  <button onClick={()=>{ if(window.confirm("Replace all existing data with this file?")) applyImport(true); }} className="px-3 py-1.5 rounded-lg border border-red-400/40 hover:bg-red-500/10 text-red-200">Replace</button>
+                  <button onClick={()=>setPendingImport(null)} className="px-3 py-1.5 rounded-lg border border-neutral-800 hover:bg-black/30">Cancel</button>
+                </div>
+              </div>
+            )}
+            {dataMsg && (
+              <div className={`text-xs space-y-0.5 ${dataMsg.ok ? "text-emerald-300" : "text-red-400"}`}>
+                {dataMsg.lines.map((l,i)=><div key={i}>{l}</div>)}
+              </div>
+            )}
           </section>
 
           {pastSessions.length>0 && (
             <section className="rounded-2xl border border-neutral-800 bg-neutral-900 p-4">
               <div className="flex items-center justify-between mb-2">
                 <div className="text-sm text-neutral-300">Past sessions</div>
-                <button onClick={resetAllData} className="text-xs text-red-300 hover:text-red-200">Reset all data</button>
+                <div className="flex items-center gap-3">
+                  <select value={formatFilter} onChange={e=>setFormatFilter(e.target.value as SessionFormat | "all")} aria-label="Filter by format" className="bg-black/30 border border-neutral-800 rounded-lg px-2 py-1 text-xs">
+                    <option value="all">all formats</option>
+                    {(Object.keys(FORMAT_LABEL) as SessionFormat[]).map(f=>(<option key={f} value={f}>{FORMAT_LABEL[f]}</option>))}
+                  </select>
+                  <button onClick={()=>setPhase("analytics")} className="text-xs text-blue-300 hover:text-blue-200">Analytics</button>
+                  <button onClick={resetAllData} className="text-xs text-red-300 hover:text-red-200">Reset all data</button>
+                </div>
               </div>
               <div className="space-y-2">
-                {pastSessions.slice().reverse().map(s=>(
-                  <div key={s.id} className="rounded-xl border border-neutral-800 bg-black/30 p-3">
+                {byFormat(pastSessions, formatFilter).slice().reverse().map(s=>(
+                  <button key={s.id} onClick={()=>openDetail(s)} className="block w-full text-left rounded-xl border border-neutral-800 bg-black/30 p-3 hover:border-neutral-600">
                     <div className="text-xs text-neutral-400">
-                      {new Date(s.startedAt).toLocaleString()} • {s.config.mode} • {s.config.difficulty} • {s.config.ansType} • {s.durationMin} min
+                      {new Date(s.startedAt).toLocaleString()} • {configText(s.config)}{s.config.adaptive && " • adaptive"}{s.config.classify && " • classify"} • {formatText(s.config)}{s.config.seed!==undefined && <> • <span className="font-mono">{encodeSessionCode(s.config, s.config.seed)}</span></>}
+                      {s.duel && <> • <span className={s.duel.result==="won" ? "text-emerald-300" : s.duel.result==="lost" ? "text-red-300" : "text-amber-300"}>duel vs {s.duel.opponent}: {s.duel.result}</span></>}
                     </div>
                     <div className="mt-2 grid grid-cols-2 sm:grid-cols-4 gap-2">
                       <Stat label="Attempts" value={`${s.correct}/${s.attempts}`}/>
@@ -523,8 +1721,10 @@ export default function SimulSolveSessions(){
                       <Stat label="Adj. avg time" value={`${s.avgTimeAdj.toFixed(2)}s`}/>
                       <Stat label="Problems/min" value={`${s.problemsPerMin.toFixed(2)}`}/>
                       <Stat label="Actual time" value={`${s.actualSeconds.toFixed(1)}s`}/>
+                      {s.sprintSeconds!==undefined && <Stat label="Sprint time" value={`${s.sprintSeconds.toFixed(1)}s`}/>}
+                      {s.survived!==undefined && <Stat label="Survived" value={`${s.survived} solved`}/>}
                     </div>
-                  </div>
+                  </button>
                 ))}
               </div>
             </section>
@@ -534,8 +1734,231 @@ export default function SimulSolveSessions(){
     );
   }
 
+  if(phase === "detail" && detail){
+    const d = detail.session;
+    return (
+      <div className="min-h-screen w-full text-neutral-100 bg-neutral-950">
+        <div className="max-w-3xl mx-auto p-6 space-y-6">
+          <header className="flex items-center gap-3">
+            <Calculator className="w-6 h-6 text-blue-400"/>
+            <h1 className="text-xl font-semibold">Session Detail</h1>
+            <div className="ml-auto">
+              <button onClick={()=>setPhase("setup")} className="px-3 py-2 rounded-lg border border-neutral-800 hover:bg-neutral-900">Back to setup</button>
+            </div>
+          </header>
+
+          <section className="rounded-2xl border border-neutral-800 bg-neutral-900 p-4">
+            <div className="text-xs text-neutral-400">
+              {new Date(d.startedAt).toLocaleString()} • {configText(d.config)}{d.config.adaptive && " • adaptive"}{d.config.classify && " • classify"} • {formatText(d.config)}{d.config.seed!==undefined && <> • <span className="font-mono">{encodeSessionCode(d.config, d.config.seed)}</span></>}
+            </div>
+            {d.duel && (
+              <div className="mt-1 text-sm text-neutral-300">
+                Duel vs {d.duel.opponent} ({DUEL_LAYOUT_LABEL[d.duel.layout].toLowerCase()}): <span className={d.duel.result==="won" ? "text-emerald-300" : d.duel.result==="lost" ? "text-red-300" : "text-amber-300"}>{d.duel.result}</span>
+                <span className="text-neutral-500"> • {d.correct} vs {d.duel.opponentCorrect} correct • adjusted time {d.duel.adjSeconds.toFixed(1)}s vs {d.duel.opponentAdjSeconds.toFixed(1)}s</span>
+              </div>
+            )}
+            <div className="mt-3 grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <Stat label="Attempts" value={`${d.correct}/${d.attempts}`}/>
+              <Stat label="Accuracy" value={`${d.accuracyPct}%`}/>
+              <Stat label="Avg time" value={`${d.avgTimePerAttempt.toFixed(2)}s`}/>
+              <Stat label="Problems/min" value={`${d.problemsPerMin.toFixed(2)}`}/>
+            </div>
+          </section>
+
+          <section className="rounded-2xl border border-neutral-800 bg-neutral-900 p-4 space-y-3">
+            <div className="text-sm text-neutral-300">Attempts</div>
+            {detail.attempts===null && <div className="text-sm text-neutral-500">Loading…</div>}
+            {detail.attempts?.length===0 && <div className="text-sm text-neutral-500">No attempts were recorded for this session.</div>}
+            {detail.attempts?.map((a,i)=>(
+              <div key={i} className="rounded-xl border border-neutral-800 bg-black/30 p-3 space-y-2">
+                <div className="flex items-center gap-2 text-xs text-neutral-400">
+                  <span>#{i+1} • {a.mode} • {a.difficulty}{a.review && " • review"}</span>
+                  <span className="ml-auto tabular-nums">{a.seconds.toFixed(1)}s</span>
+                  {a.correct ? <CheckCircle2 className="w-4 h-4 text-emerald-400"/> : <XCircle className="w-4 h-4 text-red-400"/>}
+                </div>
+                <div className="space-y-1 font-serif" style={examFont}>
+                  {a.problem.display.map((line, j)=>(<div key={j}>Eq({j+1}): <MathText text={line}/></div>))}
+                </div>
+                <div className="text-sm font-mono">
+                  Typed: {answerText(a.problem, a.answer)}{a.hints ? <span className="text-amber-300/80"> • {a.hints} hint{a.hints===1?"":"s"}</span> : null}
+                  {a.scratch && <span className="text-neutral-400"> • scratchpad {a.scratch.steps} steps vs route {a.scratch.route}{a.scratch.firstInvalid!==undefined && `, R${a.scratch.firstInvalid+1} invalid`}</span>}
+                </div>
+                {!a.correct && (
+                  <div className="text-xs text-neutral-400">
+                    {a.mistakes && <>Likely: {a.mistakes.map(k=>MISTAKE_LABEL[k]).join(", ")} • </>}
+                    {a.residuals.length>0 && <>Residuals: {a.residuals.map((r,j)=>`Eq(${j+1}) ${r}`).join(", ")} • </>}Solution: <StepText text={solutionText(a.problem)}/>
+                  </div>
+                )}
+              </div>
+            ))}
+          </section>
+        </div>
+      </div>
+    );
+  }
+
+  if(phase === "worksheet"){
+    return (
+      <div className="min-h-screen w-full text-neutral-100 bg-neutral-950 print:bg-white print:min-h-0">
+        <div className="max-w-3xl mx-auto p-6 space-y-6 print:p-0 print:max-w-none">
+          <header className="flex items-center gap-3 print:hidden">
+            <Calculator className="w-6 h-6 text-blue-400"/>
+            <h1 className="text-xl font-semibold">Worksheet</h1>
+            <div className="ml-auto">
+              <button onClick={()=>setPhase("setup")} className="px-3 py-2 rounded-lg border border-neutral-800 hover:bg-neutral-900">Back to setup</button>
+            </div>
+          </header>
+
+          <section className="rounded-2xl border border-neutral-800 bg-neutral-900 p-4 space-y-3 print:hidden">
+            <div className="text-xs text-neutral-400">{configText(config)}{classify && " • classify"} • worked steps: {METHOD_LABEL[method]}</div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <label className="flex items-center justify-between gap-2 rounded-xl border border-neutral-800 bg-black/30 px-3 py-2 sm:col-span-2">
+                <span className="text-sm text-neutral-300">Title</span>
+                <input value={sheetTitle} onChange={e=>setSheetTitle(e.target.value)} className="flex-1 bg-black/30 border border-neutral-800 rounded-lg px-3 py-2"/>
+              </label>
+              <label className="flex items-center justify-between rounded-xl border border-neutral-800 bg-black/30 px-3 py-2">
+                <span className="text-sm text-neutral-300">Problems</span>
+                <input type="number" min={WORKSHEET_COUNT.min} max={WORKSHEET_COUNT.max} value={sheetCount} onChange={e=>setSheetCount(clamp(Number(e.target.value||12), WORKSHEET_COUNT.min, WORKSHEET_COUNT.max))} className="w-24 bg-black/30 border border-neutral-800 rounded-lg px-3 py-2 text-right"/>
+              </label>
+              <label className="flex items-center justify-between gap-2 rounded-xl border border-neutral-800 bg-black/30 px-3 py-2">
+                <span className="text-sm text-neutral-300">Seed or code</span>
+                <input value={sheetSeed} onChange={e=>{ setSheetSeed(e.target.value); setSheetErr(""); }} placeholder="optional" className="w-40 bg-black/30 border border-neutral-800 rounded-lg px-3 py-2 font-mono text-sm uppercase"/>
+              </label>
+              <label className="flex items-center gap-3 rounded-xl border border-neutral-800 bg-black/30 px-3 py-2 sm:col-span-2">
+                <input type="checkbox" checked={sheetSteps} onChange={e=>setSheetSteps(e.target.checked)}/>
+                <span className="text-sm text-neutral-300">Worked steps in the answer key</span>
+              </label>
+            </div>
+            {sheetErr && <div className="text-xs text-red-400">{sheetErr}</div>}
+            <div className="flex flex-wrap items-center gap-2">
+              <button onClick={generateSheet} className="px-3 py-2 rounded-lg border border-blue-400/50 bg-blue-500/10 hover:bg-blue-500/20 text-blue-200 text-sm">Generate</button>
+              {sheet && <>
+                <div className="flex rounded-lg border border-neutral-800 overflow-hidden text-sm">
+                  {(["sheet","key"] as const).map(v=>(
+                    <button key={v} onClick={()=>setSheetView(v)} className={`px-3 py-2 ${sheetView===v ? "bg-neutral-800" : "hover:bg-black/30"}`}>{v==="sheet" ? "Worksheet" : "Answer key"}</button>
+                  ))}
+                </div>
+                <button onClick={()=>window.print()} className="px-3 py-2 rounded-lg border border-neutral-800 hover:bg-black/30 text-sm">Print</button>
+                <button onClick={()=>downloadFile(`worksheet-${worksheetCode(sheet)}.tex`, worksheetTex(sheet, sheetSteps, method), "application/x-tex")} className="px-3 py-2 rounded-lg border border-neutral-800 hover:bg-black/30 text-sm">LaTeX</button>
+                <span className="ml-auto text-xs text-neutral-500">code <span className="font-mono">{worksheetCode(sheet)}</span></span>
+              </>}
+            </div>
+          </section>
+
+          {sheet && (
+            <article className="rounded-2xl bg-white text-black p-8 print:p-0 print:rounded-none">
+              <div className="flex items-baseline justify-between gap-4 border-b border-black/30 pb-2">
+                <h2 className="text-xl font-semibold">{sheet.title}{sheetView==="key" && " — answer key"}</h2>
+                <span className="text-xs font-mono">{worksheetCode(sheet)}</span>
+              </div>
+              <div className="mt-1 text-xs text-black/60">{configText(sheet.cfg)}</div>
+              {sheetView==="sheet" ? <>
+                <div className="mt-4 text-sm">Name: <span className="inline-block w-64 border-b border-black/60"/></div>
+                {sheet.cfg.classify && <div className="mt-2 text-sm">Some systems have no solution or infinitely many; say which.</div>}
+                <ol className="mt-6 grid grid-cols-1 sm:grid-cols-2 print:grid-cols-2 gap-x-10 gap-y-8">
+                  {sheet.problems.map((p,i)=>(
+                    <li key={i} className="break-inside-avoid">
+                      <div className="flex gap-3">
+                        <span className="font-semibold">{i+1}.</span>
+                        <div className="font-serif text-lg leading-relaxed" style={examFont}>
+                          {matrixShown(sheet.cfg, p) ? <MatrixView p={p} present={sheet.cfg.present!}/> : p.display.map((line,j)=><div key={j}><MathText text={line}/></div>)}
+                        </div>
+                      </div>
+                      <div className="mt-3 ml-6 flex flex-wrap gap-2">
+                        {answerBlanks(p).map((b,j)=><div key={j} className="min-w-[8rem] rounded border border-black/50 px-2 pt-1 pb-6 text-sm" style={examFont}>{b}</div>)}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </> : (
+                <ol className="mt-6 space-y-3">
+                  {sheet.problems.map((p,i)=>(
+                    <li key={i} className="break-inside-avoid">
+                      <div className="flex gap-3"><span className="font-semibold">{i+1}.</span><span style={examFont}><StepText text={solutionText(p)}/></span></div>
+                      {sheetSteps && <ol className="ml-6 mt-1 list-disc pl-4 text-xs text-black/70 space-y-0.5">{explainSteps(p, method).map((t,j)=><li key={j}><StepText text={t}/></li>)}</ol>}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </article>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if(phase === "analytics"){
+    const shown = trendSessions(pastSessions).filter(s=>
+      (trendFilter.mode==="all" || s.config.mode===trendFilter.mode) &&
+      (trendFilter.difficulty==="all" || s.config.difficulty===trendFilter.difficulty) &&
+      (trendFilter.ansType==="all" || s.config.ansType===trendFilter.ansType));
+    const dims = [
+      { key:"mode", label:"Mode", options:Object.keys(MODE_LABEL) },
+      { key:"difficulty", label:"Difficulty", options:["easy","medium","hard"] },
+      { key:"ansType", label:"Answers", options:["integers","fractions"] },
+    ] as const;
+    return (
+      <div className="min-h-screen w-full text-neutral-100 bg-neutral-950">
+        <div className="max-w-3xl mx-auto p-6 space-y-6">
+          <header className="flex items-center gap-3">
+            <Calculator className="w-6 h-6 text-blue-400"/>
+            <h1 className="text-xl font-semibold">Progress Analytics</h1>
+            <div className="ml-auto">
+              <button onClick={()=>setPhase("setup")} className="px-3 py-2 rounded-lg border border-neutral-800 hover:bg-neutral-900">Back to setup</button>
+            </div>
+          </header>
+
+          <section className="rounded-2xl border border-neutral-800 bg-neutral-900 p-4 space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              {dims.map(d=>(
+                <label key={d.key} className="flex items-center justify-between rounded-xl border border-neutral-800 bg-black/30 px-3 py-2">
+                  <span className="text-sm text-neutral-300">{d.label}</span>
+                  <select value={trendFilter[d.key]} onChange={e=>setTrendFilter(f=>({ ...f, [d.key]: e.target.value }))} className="bg-black/30 border border-neutral-800 rounded-lg px-2 py-1">
+                    <option value="all">all</option>
+                    {d.options.map(o=>(<option key={o} value={o}>{o}</option>))}
+                  </select>
+                </label>
+              ))}
+            </div>
+            <div className="text-xs text-neutral-500">
+              {shown.length} session{shown.length===1?"":"s"} • grey: per session • blue: {ROLLING_WINDOW}-session rolling average • amber: personal best
+            </div>
+            {METRICS.map(m=>(
+              <TrendChart key={m.key} label={m.label} unit={m.unit} better={m.better} values={shown.map(s=>s[m.key])} dates={shown.map(s=>s.startedAt)}/>
+            ))}
+          </section>
+
+          <section className="rounded-2xl border border-neutral-800 bg-neutral-900 p-4 space-y-2">
+            <div className="text-sm text-neutral-300">Most common mistakes (filtered sessions)</div>
+            <MistakeList counts={shown.reduce<Partial<Record<MistakeKind, number>>>((acc, s)=>{
+              for(const [k,n] of Object.entries(s.mistakes ?? {}) as [MistakeKind, number][]) acc[k] = (acc[k] ?? 0) + n;
+              return acc;
+            }, {})}/>
+          </section>
+
+          <section className="rounded-2xl border border-neutral-800 bg-neutral-900 p-4 space-y-4">
+            <div className="text-sm text-neutral-300">Breakdown (averages over all sessions)</div>
+            {dims.map(d=>(
+              <table key={d.key} className="w-full text-sm tabular-nums">
+                <thead className="text-xs text-neutral-400">
+                  <tr><th className="text-left font-normal">{d.label}</th><th className="text-right font-normal">Sessions</th>{METRICS.map(m=>(<th key={m.key} className="text-right font-normal">{m.label}</th>))}</tr>
+                </thead>
+                <tbody className="text-neutral-300">
+                  {breakdown(pastSessions, d.key).map(r=>(
+                    <tr key={r.group}><td>{r.group}</td><td className="text-right">{r.count}</td>{METRICS.map(m=>(<td key={m.key} className="text-right">{r[m.key].toFixed(2)}{m.unit}</td>))}</tr>
+                  ))}
+                </tbody>
+              </table>
+            ))}
+          </section>
+        </div>
+      </div>
+    );
+  }
+
   if(phase === "summary"){
     const last = pastSessions[pastSessions.length-1];
+    const cmp = last ? compareToHistory(last, pastSessions) : null;
     return (
       <div className="min-h-screen w-full text-neutral-100 bg-neutral-950">
         <div className="max-w-3xl mx-auto p-6 space-y-6">
@@ -550,7 +1973,7 @@ export default function SimulSolveSessions(){
           {last ? (
             <section className="rounded-2xl border border-neutral-800 bg-neutral-900 p-4">
               <div className="text-xs text-neutral-400">
-                {new Date(last.startedAt).toLocaleString()} • {last.config.mode} • {last.config.difficulty} • {last.config.ansType} • {last.durationMin} min
+                {new Date(last.startedAt).toLocaleString()} • {configText(last.config)}{last.config.adaptive && " • adaptive"}{last.config.classify && " • classify"} • {formatText(last.config)}{last.config.seed!==undefined && <> • <span className="font-mono">{encodeSessionCode(last.config, last.config.seed)}</span></>}
               </div>
               <div className="mt-3 grid grid-cols-2 sm:grid-cols-3 gap-3">
                 <Stat label="Attempts" value={`${last.correct}/${last.attempts}`}/>
@@ -559,7 +1982,68 @@ export default function SimulSolveSessions(){
                 <Stat label="Avg time / attempt" value={`${last.avgTimePerAttempt.toFixed(2)}s`}/>
                 <Stat label="Adj. avg time" value={`${last.avgTimeAdj.toFixed(2)}s`}/>
                 <Stat label="Actual time" value={`${last.actualSeconds.toFixed(1)}s`}/>
+                {last.score!==undefined && <Stat label="Score" value={last.score.toFixed(2)}/>}
+                {last.hints!==undefined && <Stat label="Hints used" value={`${last.hints}`}/>}
+                {last.config.format==="sprint" && <Stat label="Sprint time" value={last.sprintSeconds!==undefined ? `${last.sprintSeconds.toFixed(1)}s` : `unfinished (${last.correct}/${last.config.sprintCount})`}/>}
+                {last.survived!==undefined && <Stat label="Survived" value={`${last.survived} solved`}/>}
+                {last.pauses && <Stat label="Paused" value={`${last.pauses.seconds.toFixed(0)}s • ${last.pauses.count}×${last.pauses.auto>0 ? ` (${last.pauses.auto} auto)` : ""}`}/>}
               </div>
+              {cmp && cmp.count===0 && <div className="mt-4 text-xs text-neutral-500">First session at this setting — it sets your baseline.</div>}
+              {cmp && cmp.count>0 && (
+                <div className="mt-4">
+                  <div className="text-xs text-neutral-400 mb-1">Compared with your {cmp.count} earlier {configText(last.config)} session{cmp.count===1?"":"s"}</div>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                    {cmp.rows.map(r=>(
+                      <div key={r.key} className="px-3 py-2 rounded-xl border border-neutral-800 bg-black/30 text-xs text-neutral-400">
+                        <div className="text-neutral-300">{r.label} {r.isPB && <span className="text-amber-300">• personal best</span>}</div>
+                        <div className="tabular-nums">
+                          <span className={isBetter(r.value, r.mean!, r.better) ? "text-emerald-300" : "text-red-300"}>{r.value.toFixed(2)}{r.unit}</span> vs avg {r.mean!.toFixed(2)}{r.unit}, best {r.best!.toFixed(2)}{r.unit}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {last.levelPath && last.levelPath.length>1 && (
+                <div className="mt-4">
+                  <div className="text-xs text-neutral-400 mb-1">Difficulty path: level {last.levelPath[0].toFixed(1)} → {last.levelPath[last.levelPath.length-1].toFixed(1)} (peak {Math.max(...last.levelPath).toFixed(1)})</div>
+                  <LevelPath path={last.levelPath}/>
+                </div>
+              )}
+              {last.ratingPath && (
+                <div className="mt-4">
+                  <div className="text-xs text-neutral-400 mb-1">
+                    Rating: {last.ratingPath[0]} → {last.ratingPath[last.ratingPath.length-1]}{" "}
+                    <span className={last.ratingPath[last.ratingPath.length-1]>=last.ratingPath[0] ? "text-emerald-300" : "text-red-300"}>({last.ratingPath[last.ratingPath.length-1]>=last.ratingPath[0] ? "+" : ""}{last.ratingPath[last.ratingPath.length-1]-last.ratingPath[0]})</span>
+                  </div>
+                  <RatingChart values={last.ratingPath}/>
+                </div>
+              )}
+              {last.components && (
+                <div className="mt-4">
+                  <div className="text-xs text-neutral-400 mb-1">By kind</div>
+                  <table className="w-full text-sm tabular-nums">
+                    <thead className="text-xs text-neutral-400">
+                      <tr><th className="text-left font-normal">Kind</th><th className="text-right font-normal">Correct</th><th className="text-right font-normal">Accuracy</th><th className="text-right font-normal">Avg time</th><th className="text-right font-normal">Score</th></tr>
+                    </thead>
+                    <tbody className="text-neutral-300">
+                      {last.components.map(c=>(
+                        <tr key={kindText(c)}>
+                          <td>{kindText(c)}</td><td className="text-right">{c.correct}/{c.attempts}</td>
+                          <td className="text-right">{c.attempts ? `${(100*c.correct/c.attempts).toFixed(1)}%` : "—"}</td>
+                          <td className="text-right">{c.attempts ? `${c.avgTime.toFixed(2)}s` : "—"}</td><td className="text-right">{c.score.toFixed(2)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              {last.mistakes && (
+                <div className="mt-4">
+                  <div className="text-xs text-neutral-400 mb-1">Likely mistakes this session</div>
+                  <MistakeList counts={last.mistakes}/>
+                </div>
+              )}
               <div className="mt-4">
                 <button onClick={()=>setPhase("setup")} className="px-4 py-2 rounded-xl border border-blue-400/50 bg-blue-500/10 hover:bg-blue-500/20 text-blue-200">New session</button>
               </div>
@@ -568,12 +2052,18 @@ export default function SimulSolveSessions(){
 
           {/* History list */}
           <section className="rounded-2xl border border-neutral-800 bg-neutral-900 p-4">
-            <div className="text-sm text-neutral-300 mb-2">Past sessions</div>
+            <div className="flex items-center justify-between mb-2">
+              <div className="text-sm text-neutral-300">Past sessions</div>
+              <select value={formatFilter} onChange={e=>setFormatFilter(e.target.value as SessionFormat | "all")} aria-label="Filter by format" className="bg-black/30 border border-neutral-800 rounded-lg px-2 py-1 text-xs">
+                  <option value="all">all formats</option>
+                  {(Object.keys(FORMAT_LABEL) as SessionFormat[]).map(f=>(<option key={f} value={f}>{FORMAT_LABEL[f]}</option>))}
+                </select>
+            </div>
             <div className="space-y-2">
-              {pastSessions.slice().reverse().map(s=>(
-                <div key={s.id} className="rounded-xl border border-neutral-800 bg-black/30 p-3">
+              {byFormat(pastSessions, formatFilter).slice().reverse().map(s=>(
+                <button key={s.id} onClick={()=>openDetail(s)} className="block w-full text-left rounded-xl border border-neutral-800 bg-black/30 p-3 hover:border-neutral-600">
                   <div className="text-xs text-neutral-400">
-                    {new Date(s.startedAt).toLocaleString()} • {s.config.mode} • {s.config.difficulty} • {s.config.ansType} • {s.durationMin} min
+                    {new Date(s.startedAt).toLocaleString()} • {configText(s.config)}{s.config.adaptive && " • adaptive"}{s.config.classify && " • classify"} • {formatText(s.config)}{s.config.seed!==undefined && <> • <span className="font-mono">{encodeSessionCode(s.config, s.config.seed)}</span></>}
                   </div>
                   <div className="mt-2 grid grid-cols-2 sm:grid-cols-4 gap-2">
                     <Stat label="Attempts" value={`${s.correct}/${s.attempts}`}/>
@@ -581,7 +2071,7 @@ export default function SimulSolveSessions(){
                     <Stat label="Avg time" value={`${s.avgTimePerAttempt.toFixed(2)}s`}/>
                     <Stat label="Adj. avg time" value={`${s.avgTimeAdj.toFixed(2)}s`}/>
                   </div>
-                </div>
+                </button>
               ))}
             </div>
           </section>
@@ -590,8 +2080,171 @@ export default function SimulSolveSessions(){
     );
   }
 
+  if(phase === "duel"){
+    const running = !!duel && !duel.finished, n = duel?.problems.length ?? 0;
+    const [a, b] = duelSetup.players, canStart = a!=="" && b!=="" && a!==b;
+    const standings = duel ? duel.players.map(x=>duelStanding(x.attempts)) : [];
+    const outcome = duel?.finished ? duelResult(standings[0], standings[1]) : null;
+    return (
+      <div className="min-h-screen w-full text-neutral-100 bg-neutral-950">
+        <div className="max-w-5xl mx-auto p-6 space-y-6">
+          <header className="flex items-center gap-3">
+            <Swords className="w-6 h-6 text-blue-400"/>
+            <h1 className="text-xl font-semibold">SimulSolve — Duel</h1>
+            <div className="ml-auto flex items-center gap-2">
+              {running
+                ? <button onClick={()=>finishDuel(duel)} className="px-3 py-2 rounded-lg border border-red-500/60 text-red-300 hover:bg-red-500/10 flex items-center gap-2"><StopCircle className="w-4 h-4"/> End duel</button>
+                : <button onClick={()=>setPhase("setup")} className="px-3 py-2 rounded-lg border border-neutral-800 hover:bg-neutral-900">Back to setup</button>}
+            </div>
+          </header>
+
+          {!duel && (
+            <section className="rounded-2xl border border-neutral-800 bg-neutral-900 p-4 space-y-4">
+              <div className="text-sm text-neutral-300">Both players answer the same {duelSetup.count} problems: {configText(config)}{config.classify && " • classify"}{config.lowestTerms && " • lowest terms"}</div>
+              {profiles.list.length<2
+                ? <div className="text-sm text-amber-300">A duel is between two profiles — create a second one on the setup screen first.</div>
+                : <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {([0, 1] as const).map(i=>(
+                      <label key={i} className="flex items-center justify-between rounded-xl border border-neutral-800 bg-black/30 px-3 py-2">
+                        <span className="text-sm text-neutral-300">Player {i+1}</span>
+                        <select value={duelSetup.players[i]} onChange={e=>setDuelSetup(d=>({ ...d, players: (i===0 ? [e.target.value, d.players[1]] : [d.players[0], e.target.value]) as [string, string] }))} className="bg-black/30 border border-neutral-800 rounded-lg px-3 py-2">
+                          {profiles.list.map(x=>(<option key={x.id} value={x.id}>{x.name}</option>))}
+                        </select>
+                      </label>
+                    ))}
+                    <label className="flex items-center justify-between rounded-xl border border-neutral-800 bg-black/30 px-3 py-2">
+                      <span className="text-sm text-neutral-300">Layout</span>
+                      <select value={duelSetup.layout} onChange={e=>setDuelSetup(d=>({ ...d, layout: e.target.value as DuelLayout }))} className="bg-black/30 border border-neutral-800 rounded-lg px-3 py-2">
+                        {(Object.keys(DUEL_LAYOUT_LABEL) as DuelLayout[]).map(l=>(<option key={l} value={l}>{DUEL_LAYOUT_LABEL[l]}</option>))}
+                      </select>
+                    </label>
+                    <label className="flex items-center justify-between rounded-xl border border-neutral-800 bg-black/30 px-3 py-2">
+                      <span className="text-sm text-neutral-300">Problems</span>
+                      <input type="number" min={DUEL_COUNT.min} max={DUEL_COUNT.max} value={duelSetup.count} onChange={e=>setDuelSetup(d=>({ ...d, count: clamp(Number(e.target.value||10), DUEL_COUNT.min, DUEL_COUNT.max) }))} className="w-24 bg-black/30 border border-neutral-800 rounded-lg px-3 py-2 text-right"/>
+                    </label>
+                  </div>}
+              {profiles.list.length>=2 && !canStart && <div className="text-xs text-red-400">Pick two different players.</div>}
+              <div className="text-xs text-neutral-500">
+                {duelSetup.layout==="side" ? "Each player has their own half of the screen and clock; both run at once." : "Players alternate problem by problem, handing the device over in between; a clock only runs on its player's turn."}
+                {" "}One answer per problem, no hints. Most correct answers wins, then the lower adjusted time.
+              </div>
+              <button onClick={startDuel} disabled={!canStart} className="w-full px-4 py-3 rounded-xl border border-blue-400/50 bg-blue-500/10 hover:bg-blue-500/20 text-blue-200 flex items-center justify-center gap-2 disabled:opacity-40">
+                <Swords className="w-4 h-4"/> Start duel
+              </button>
+            </section>
+          )}
+
+          {duel && (
+            <section className="grid grid-cols-1 sm:grid-cols-2 gap-3" aria-label="Scoreboard">
+              {duel.players.map((x,i)=>(
+                <div key={x.profileId} className={`rounded-2xl border bg-neutral-900 p-4 space-y-2 ${running && duel.layout==="turns" && duel.turn===i ? "border-blue-400/60" : "border-neutral-800"}`}>
+                  <div className="flex items-baseline gap-2">
+                    <div className="font-semibold">{x.name}</div>
+                    <div className="text-xs text-neutral-400">{x.problemNo>=n ? "finished" : `problem ${x.problemNo+1} of ${n}`}</div>
+                    {running && x.problemNo<n && <div className="ml-auto text-sm tabular-nums">{clockRead(x.clock, now).toFixed(1)}s</div>}
+                  </div>
+                  <div className="flex gap-2">
+                    <Stat label="Correct" value={`${standings[i].correct}/${x.attempts.length}`}/>
+                    <Stat label="Adj. time" value={`${standings[i].adjSeconds.toFixed(1)}s`}/>
+                  </div>
+                  <div className="h-2 rounded-full bg-black/30 overflow-hidden">
+                    <div className="h-full bg-blue-300/80" style={{width:`${Math.round(100*x.problemNo/n)}%`}}/>
+                  </div>
+                </div>
+              ))}
+            </section>
+          )}
+
+          {running && duel.layout==="side" && (
+            <section className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {duel.players.map((x,i)=>(
+                <div key={x.profileId} className="rounded-2xl border border-neutral-800 bg-neutral-900 p-4 space-y-3" aria-label={`${x.name}'s board`} role="region">
+                  <h2 className="font-semibold">{x.name}</h2>
+                  {x.problemNo<n
+                    ? <DuelSide key={x.problemNo} p={duel.problems[x.problemNo]} cfg={duel.cfg} onSubmit={(answer, claim)=>submitDuel(i as 0 | 1, answer, claim)}/>
+                    : <div className="text-sm text-neutral-400">All done — waiting for {duel.players[1-i].name}.</div>}
+                  <div role="status" className={`text-sm ${x.last?.ok ? "text-emerald-400" : "text-red-400"}`}>{x.last?.text}</div>
+                </div>
+              ))}
+            </section>
+          )}
+
+          {running && duel.layout==="turns" && (() => {
+            const x = duel.players[duel.turn], last = duel.players[1-duel.turn].last;
+            return (
+              <section className="rounded-2xl border border-neutral-800 bg-neutral-900 p-4 space-y-3">
+                <div role="status" className="text-sm text-neutral-400">{last && `${duel.players[1-duel.turn].name} — ${last.text}`}</div>
+                {duel.ready
+                  ? <>
+                      <h2 className="font-semibold">{x.name} — problem {x.problemNo+1} of {n}</h2>
+                      <DuelSide key={`${duel.turn}-${x.problemNo}`} p={duel.problems[x.problemNo]} cfg={duel.cfg} onSubmit={(answer, claim)=>submitDuel(duel.turn, answer, claim)}/>
+                    </>
+                  : <div className="flex flex-col items-center gap-3 py-6 text-center">
+                      <div className="text-lg">Pass the device to {x.name}</div>
+                      <div className="text-sm text-neutral-400">Problem {x.problemNo+1} of {n} • the clock starts when you are ready</div>
+                      <button autoFocus onClick={duelReady} className="px-4 py-2 rounded-xl border border-blue-400/50 bg-blue-500/10 hover:bg-blue-500/20 text-blue-200 flex items-center gap-2"><Play className="w-4 h-4"/> Ready</button>
+                    </div>}
+              </section>
+            );
+          })()}
+
+          {duel?.finished && (
+            <section className="rounded-2xl border border-neutral-800 bg-neutral-900 p-4 space-y-4">
+              <div className="flex items-center gap-2 text-lg" role="status">
+                <Trophy className="w-5 h-5 text-amber-300"/>
+                {outcome==="tied" ? "It's a tie." : `${duel.players[outcome==="won" ? 0 : 1].name} wins.`}
+                <span className="text-xs text-neutral-500">most correct, then lower adjusted time</span>
+              </div>
+              <table className="w-full text-sm">
+                <thead><tr className="text-neutral-400 text-left"><th className="font-normal py-1"/>{duel.players.map(x=>(<th key={x.profileId} className="font-normal py-1 text-right">{x.name}</th>))}</tr></thead>
+                <tbody className="tabular-nums">
+                  {([
+                    ["Correct", x=>`${x.attempts.filter(a=>a.correct).length}/${n}`],
+                    ["Answered", x=>`${x.attempts.length}`],
+                    ["Time", x=>`${x.attempts.reduce((s,a)=>s+a.seconds, 0).toFixed(1)}s`],
+                    ["Adjusted time", x=>`${duelStanding(x.attempts).adjSeconds.toFixed(1)}s`],
+                    ["Score", x=>x.attempts.reduce((s,a)=>s + attemptPoints(a), 0).toFixed(2)],
+                  ] as [string, (x: DuelPlayer)=>string][]).map(([label, cell])=>(
+                    <tr key={label} className="border-t border-neutral-800"><td className="py-1 text-neutral-400">{label}</td>{duel.players.map(x=>(<td key={x.profileId} className="py-1 text-right">{cell(x)}</td>))}</tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="space-y-2">
+                {duel.problems.map((p,k)=>(
+                  <div key={k} className="rounded-xl border border-neutral-800 bg-black/30 p-3 text-sm space-y-1">
+                    <div className="flex flex-wrap items-center gap-3">
+                      <span className="text-neutral-400">#{k+1}</span>
+                      {duel.players.map(x=>{ const a = x.attempts[k]; return (
+                        <span key={x.profileId} className={!a ? "text-neutral-500" : a.correct ? "text-emerald-400" : "text-red-400"}>{x.name}: {!a ? "not answered" : `${a.correct ? "✓" : "✗"} ${a.seconds.toFixed(1)}s`}</span>
+                      ); })}
+                    </div>
+                    <div className="text-neutral-400 font-serif" style={examFont}>{p.display.map((line,j)=>(<span key={j} className="mr-4"><MathText text={line}/></span>))}</div>
+                    <div className="text-emerald-300/80"><StepText text={solutionText(p)}/></div>
+                  </div>
+                ))}
+              </div>
+              <div className="text-xs text-neutral-500">Saved to both players' session histories.</div>
+              <div className="flex flex-wrap gap-2">
+                <button onClick={startDuel} className="px-4 py-2 rounded-xl border border-blue-400/50 bg-blue-500/10 hover:bg-blue-500/20 text-blue-200 flex items-center gap-2"><RotateCcw className="w-4 h-4"/> Rematch</button>
+                <button onClick={()=>setDuel(null)} className="px-4 py-2 rounded-xl border border-neutral-800 hover:bg-black/30">Change players</button>
+              </div>
+            </section>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   // ===== ACTIVE =====
-  const progressPct = Math.min(100, Math.round(100*sessionElapsed/sessionTotal));
+  const solvedCount = sessionAttempts.filter(a=>a.correct).length, lost = livesLost(sessionAttempts);
+  const clockText = (sec: number) => `${Math.floor(sec/60)}:${String(Math.floor(sec%60)).padStart(2,"0")}`;
+  const progressPct = sessionCfg.format==="sprint" ? Math.min(100, Math.round(100*solvedCount/(sessionCfg.sprintCount ?? 1)))
+    : sessionCfg.format==="survival" ? Math.round(100*(SURVIVAL_LIVES - lost)/SURVIVAL_LIVES)
+    : Math.min(100, Math.round(100*sessionElapsed/sessionTotal));
+  // the assertive live region only changes text at these thresholds, so each warning is read once
+  const timeWarning = timed ? (sessionRemaining<=10 ? "10 seconds left." : sessionRemaining<=60 ? "One minute left." : "")
+    : sessionCfg.format==="survival" && SURVIVAL_LIVES - lost===1 ? "Last life." : "";
+  const keys = (a: ShortcutAction) => shortcuts[a] || undefined;
 
   return (
     <div className="min-h-screen w-full text-neutral-100 bg-neutral-950">
@@ -601,78 +2254,299 @@ export default function SimulSolveSessions(){
           <Calculator className="w-6 h-6 text-blue-400"/>
           <h1 className="text-xl font-semibold">SimulSolve — Session</h1>
           <div className="ml-auto flex items-center gap-2">
-            <button onClick={endSession} className="px-3 py-2 rounded-lg border border-red-500/60 text-red-300 hover:bg-red-500/10 flex items-center gap-2">
+            <button onClick={()=>{ setHelpOpen(true); setRecording(null); }} aria-keyshortcuts={keys("help")} aria-haspopup="dialog" className="px-3 py-2 rounded-lg border border-neutral-800 hover:bg-neutral-900 flex items-center gap-2">
+              <Keyboard className="w-4 h-4"/> Shortcuts
+            </button>
+            <button onClick={paused ? resumeSession : pauseSession} aria-keyshortcuts={keys("pause")} className="px-3 py-2 rounded-lg border border-neutral-800 hover:bg-neutral-900 flex items-center gap-2">
+              {paused ? <><Play className="w-4 h-4"/> Resume</> : <><Pause className="w-4 h-4"/> Pause</>}
+            </button>
+            <button onClick={endSession} aria-keyshortcuts={keys("end")} className="px-3 py-2 rounded-lg border border-red-500/60 text-red-300 hover:bg-red-500/10 flex items-center gap-2">
               <StopCircle className="w-4 h-4"/> End session
             </button>
           </div>
         </header>
+        <div className="sr-only" role="status" aria-live="polite">{announce}</div>
+        <div className="sr-only" role="alert" aria-live="assertive">{timeWarning}</div>
+
+        {helpOpen && (
+          <div className="fixed inset-0 z-20 bg-neutral-950/80 flex items-center justify-center p-4" onClick={()=>{ setHelpOpen(false); setRecording(null); }}>
+            <div role="dialog" aria-modal="true" aria-labelledby="shortcut-help-title" onClick={e=>e.stopPropagation()} className="w-full max-w-lg rounded-2xl border border-neutral-800 bg-neutral-900 p-5 space-y-3">
+              <div className="flex items-center gap-2">
+                <Keyboard className="w-5 h-5 text-blue-400"/>
+                <h2 id="shortcut-help-title" className="font-semibold">Keyboard shortcuts</h2>
+                <button autoFocus onClick={()=>{ setHelpOpen(false); setRecording(null); }} className="ml-auto px-3 py-1 rounded-lg border border-neutral-800 hover:bg-black/30 text-sm">Close</button>
+              </div>
+              <div className="text-xs text-neutral-400">Single keys wait while you type in an answer field; Enter submits from any answer field. Esc closes this list.</div>
+              <ul className="divide-y divide-neutral-800 text-sm">
+                {(Object.keys(SHORTCUT_LABEL) as ShortcutAction[]).map(a=>(
+                  <li key={a} className="flex items-center gap-3 py-1.5">
+                    <span className="flex-1 text-neutral-300">{SHORTCUT_LABEL[a]}</span>
+                    <kbd className={`font-mono text-xs px-2 py-0.5 rounded border ${recording===a ? "border-blue-400/60 text-blue-200" : "border-neutral-700"}`}>{recording===a ? "press a key…" : shortcuts[a] || "—"}</kbd>
+                    <button onClick={()=>setRecording(recording===a ? null : a)} aria-label={`Change the shortcut for ${SHORTCUT_LABEL[a].toLowerCase()}`} className="px-2 py-0.5 rounded border border-neutral-800 hover:bg-black/30 text-xs">{recording===a ? "cancel" : "change"}</button>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex items-center gap-3 text-xs text-neutral-500">
+                <span>{recording ? "Press the new combination — Backspace leaves it unbound, Esc keeps the old one." : "Shortcuts are saved on this device."}</span>
+                <button onClick={resetShortcuts} className="ml-auto px-3 py-1 rounded-lg border border-neutral-800 hover:bg-black/30 text-neutral-300">Restore defaults</button>
+              </div>
+            </div>
+          </div>
+        )}
 
         {/* Session status bar */}
         <section className="rounded-2xl border border-neutral-800 p-4 bg-neutral-900">
           <div className="flex flex-wrap items-center gap-3">
-            <div className="flex items-center gap-2">
-              <AlarmClock className="w-5 h-5"/>
-              <div className="tabular-nums text-lg">{Math.floor(sessionRemaining/60)}:{String(Math.floor(sessionRemaining%60)).padStart(2,"0")}</div>
-              <div className="text-xs text-neutral-400 ml-2">left • {minutes} min session</div>
-            </div>
+            {timed && (
+              <div className="flex items-center gap-2">
+                <AlarmClock className="w-5 h-5"/>
+                <div className="tabular-nums text-lg">{clockText(sessionRemaining)}</div>
+                <div className="text-xs text-neutral-400 ml-2">left • {sessionCfg.minutes} min session</div>
+              </div>
+            )}
+            {sessionCfg.format==="sprint" && (
+              <div className="flex items-center gap-2">
+                <Clock className="w-5 h-5"/>
+                <div className="tabular-nums text-lg">{clockText(sessionElapsed)}.{Math.floor((sessionElapsed%1)*10)}</div>
+                <div className="text-xs text-neutral-400 ml-2">{solvedCount}/{sessionCfg.sprintCount} solved • sprint</div>
+              </div>
+            )}
+            {sessionCfg.format==="survival" && (
+              <div className="flex items-center gap-2">
+                <div className="text-lg tracking-widest text-red-400" aria-label={`${SURVIVAL_LIVES - lost} lives left`}>{"♥".repeat(SURVIVAL_LIVES - lost)}<span className="text-neutral-700">{"♥".repeat(lost)}</span></div>
+                <div className="text-xs text-neutral-400 ml-2">{solvedCount} solved • survival</div>
+              </div>
+            )}
+            {sessionCfg.format==="untimed" && <div className="text-sm text-neutral-400">Untimed practice • {solvedCount} solved</div>}
             <div className="ml-auto flex gap-2">
               <Stat label="Attempts" value={`${sessionAttempts.filter(a=>a.correct).length}/${sessionAttempts.length}`}/>
               <Stat label="Avg time" value={`${(sessionAttempts.reduce((s,a)=>s+a.seconds,0)/Math.max(1,sessionAttempts.length)).toFixed(2)}s`}/>
               <Stat label="Problems/min" value={`${(sessionAttempts.length/Math.max(1,sessionElapsed/60)).toFixed(2)}`}/>
             </div>
           </div>
-          <div className="h-2 rounded-full bg-black/30 overflow-hidden mt-2">
-            <div className="h-full bg-blue-300/80" style={{width:`${progressPct}%`}}/>
-          </div>
+          {sessionCfg.format!=="untimed" && (
+            <div className="h-2 rounded-full bg-black/30 overflow-hidden mt-2">
+              <div className={`h-full ${sessionCfg.format==="survival" ? "bg-red-400/70" : "bg-blue-300/80"}`} style={{width:`${progressPct}%`}}/>
+            </div>
+          )}
         </section>
 
         {/* Problem card */}
-        <section className="rounded-2xl border border-neutral-800 bg-neutral-900 p-5 space-y-4">
+        <section className="relative rounded-2xl border border-neutral-800 bg-neutral-900 p-5 space-y-4">
+          {paused && (
+            <div className="absolute inset-0 z-10 rounded-2xl bg-neutral-950/95 flex flex-col items-center justify-center gap-3 text-center">
+              <div className="text-lg">Session paused</div>
+              <div className="text-sm text-neutral-400">
+                {paused.reason==="hidden" ? "The page was hidden, so the clock stopped." : paused.reason==="restored" ? "Picked up where you left off — the clock is stopped until you resume." : "The clock is stopped."}
+              </div>
+              <button onClick={resumeSession} className="px-4 py-2 rounded-xl border border-blue-400/50 bg-blue-500/10 hover:bg-blue-500/20 text-blue-200 flex items-center gap-2"><Play className="w-4 h-4"/> Resume</button>
+            </div>
+          )}
           <div className="flex items-center gap-3">
             <h2 className="font-semibold">Solve the system</h2>
-            <div className="text-xs text-neutral-400">Mode {config.mode} • {config.difficulty} • {config.ansType}</div>
+            {reviewId && <span className="text-xs px-2 py-0.5 rounded-full border border-amber-400/40 text-amber-300">review</span>}
+            <div className="text-xs text-neutral-400">{MODE_LABEL[p.mode]} • {p.difficulty} • {p.ansType} • rated {pRating}{sessionCfg.adaptive && <> • level {level.toFixed(1)}</>} • #{problemNo+1} • <span className="font-mono">{encodeSessionCode(sessionCfg, sessionSeed)}</span></div>
             <div className="ml-auto flex items-center gap-2">
               <div className="text-sm tabular-nums">{elapsedProblem.toFixed(1)}s</div>
-              <button onClick={()=>setRunningProblem(r=>!r)} className={`px-3 py-1.5 rounded-xl border ${runningProblem?"border-red-500/50 text-red-300":"border-neutral-800"}`}>
+              <button onClick={()=>setRunningProblem(!runningProblem)} disabled={!!paused} aria-label={runningProblem ? "Stop the problem timer" : "Start the problem timer"} aria-keyshortcuts={keys("timer")} className={`px-3 py-1.5 rounded-xl border ${runningProblem?"border-red-500/50 text-red-300":"border-neutral-800"}`}>
                 {runningProblem? <Pause className="w-4 h-4"/> : <Play className="w-4 h-4"/>}
               </button>
-              <button onClick={()=>setElapsedProblem(0)} className="px-3 py-1.5 rounded-xl border border-neutral-800"><RotateCcw className="w-4 h-4"/></button>
+              <button onClick={()=>setProblemClock(c=>({ acc: 0, since: c.since===null ? null : Date.now() }))} aria-label="Reset the problem timer" aria-keyshortcuts={keys("resetTimer")} className="px-3 py-1.5 rounded-xl border border-neutral-800"><RotateCcw className="w-4 h-4"/></button>
             </div>
           </div>
 
-          <div className="space-y-2 font-serif text-xl leading-relaxed" style={examFont}>
-            {p.display.map((line, i)=> (
-              <div key={i} className="bg-black/30 border border-neutral-800 rounded-lg px-3 py-2">Eq({i+1}): {line}</div>
-            ))}
-          </div>
+          {matrixShown(sessionCfg, p)
+            ? <div className="bg-black/30 border border-neutral-800 rounded-lg px-3 py-3 font-serif text-xl" style={examFont}><MatrixView p={p} present={sessionCfg.present!}/></div>
+            : <div className="space-y-2 font-serif text-xl leading-relaxed" style={examFont}>
+                {p.display.map((line, i)=> (
+                  <div key={i} className="bg-black/30 border border-neutral-800 rounded-lg px-3 py-2">Eq({i+1}): <MathText text={line}/></div>
+                ))}
+              </div>}
+
+          {hints>0 && (
+            <ol className="list-decimal pl-5 text-sm text-amber-200/90 space-y-1">
+              {Array.from({length: hints}, (_,i)=>(<li key={i}><StepText text={hintText(p, i+1)}/></li>))}
+            </ol>
+          )}
 
-          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 items-start">
+          {scratchOn && !p.curve && (
+            <div className="rounded-xl border border-neutral-800 bg-black/20 p-3 space-y-3">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <ListChecks className="w-4 h-4 text-blue-300"/>
+                <span className="font-medium">Scratchpad</span>
+                <span className="text-xs text-neutral-500">Build rows R1, R2, … one operation at a time and type the equation each one gives.</span>
+              </div>
+              {scratch.length>0 && (
+                <ol className="space-y-1 text-sm">
+                  {scratch.map((st,i)=>{
+                    const c = scratchCheck.checks[i];
+                    return (
+                      <li key={i} className={`flex flex-wrap items-center gap-2 rounded-lg px-2 py-1 border ${i===scratchCheck.firstInvalid ? "border-red-500/60 bg-red-500/10" : "border-transparent"}`}>
+                        <span className="text-neutral-500 w-8">R{i+1}</span>
+                        <span className="font-mono">{st.typed}</span>
+                        <span className="text-xs text-neutral-500">{scratchOpText(st)}</span>
+                        {c.ok ? <CheckCircle2 className="w-4 h-4 text-emerald-400"/> : <XCircle className="w-4 h-4 text-red-400"/>}
+                        {!c.ok && <span className="w-full pl-10 text-xs text-red-300">{i===scratchCheck.firstInvalid && "First invalid step. "}{c.note}</span>}
+                      </li>
+                    );
+                  })}
+                </ol>
+              )}
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <select value={scratchDraft.op} onChange={e=>setScratchDraft(d=>({ ...d, op: e.target.value as ScratchOp["op"] }))} aria-label="Operation" className="bg-black/30 border border-neutral-800 rounded-lg px-2 py-1">
+                  {(Object.keys(SCRATCH_OP_LABEL) as ScratchOp["op"][]).map(o=>(<option key={o} value={o} disabled={o!=="rearrange" && scratch.length===0}>{SCRATCH_OP_LABEL[o]}</option>))}
+                </select>
+                {scratchDraft.op==="rearrange" && (
+                  <select value={scratchDraft.eq} onChange={e=>setScratchDraft(d=>({ ...d, eq: Number(e.target.value) }))} aria-label="Equation" className="bg-black/30 border border-neutral-800 rounded-lg px-2 py-1">
+                    {p.display.map((_,i)=>(<option key={i} value={i}>Eq({i+1})</option>))}
+                  </select>
+                )}
+                {scratchDraft.op==="scale" && <>
+                  <input value={scratchDraft.k} onChange={e=>setScratchDraft(d=>({ ...d, k: e.target.value }))} placeholder="k" aria-label="Multiplier" className="w-16 px-2 py-1 rounded-lg bg-black/30 border border-neutral-800 font-mono"/>
+                  <span className="text-neutral-400">×</span>
+                </>}
+                {scratchDraft.op==="substitute" && <>
+                  <select value={scratchDraft.other} onChange={e=>setScratchDraft(d=>({ ...d, other: Number(e.target.value) }))} aria-label="Row with the value" className="bg-black/30 border border-neutral-800 rounded-lg px-2 py-1">
+                    {scratch.map((_,i)=>(<option key={i} value={i}>R{i+1}</option>))}
+                  </select>
+                  <span className="text-neutral-400">into</span>
+                </>}
+                {scratchDraft.op!=="rearrange" && (
+                  <select value={scratchDraft.row} onChange={e=>setScratchDraft(d=>({ ...d, row: Number(e.target.value) }))} aria-label="Row" className="bg-black/30 border border-neutral-800 rounded-lg px-2 py-1">
+                    {scratch.map((_,i)=>(<option key={i} value={i}>R{i+1}</option>))}
+                  </select>
+                )}
+                {scratchDraft.op==="combine" && <>
+                  <span className="text-neutral-400">+</span>
+                  <input value={scratchDraft.k} onChange={e=>setScratchDraft(d=>({ ...d, k: e.target.value }))} placeholder="k" aria-label="Multiplier" className="w-16 px-2 py-1 rounded-lg bg-black/30 border border-neutral-800 font-mono"/>
+                  <span className="text-neutral-400">×</span>
+                  <select value={scratchDraft.other} onChange={e=>setScratchDraft(d=>({ ...d, other: Number(e.target.value) }))} aria-label="Other row" className="bg-black/30 border border-neutral-800 rounded-lg px-2 py-1">
+                    {scratch.map((_,i)=>(<option key={i} value={i}>R{i+1}</option>))}
+                  </select>
+                </>}
+                <span className="text-neutral-400">→</span>
+                <input value={scratchDraft.typed} onChange={e=>setScratchDraft(d=>({ ...d, typed: e.target.value }))} onKeyDown={e=>{ if(e.key==="Enter") addScratchStep(); }} data-own-enter
+                  placeholder={`e.g. ${p.variables.map((v,i)=>`${i+2}${v}`).join(" + ")} = 7`} aria-label="Resulting equation"
+                  className="flex-1 min-w-40 px-2 py-1 rounded-lg bg-black/30 border border-neutral-800 focus:ring-2 focus:ring-blue-500 font-mono"/>
+                <button onClick={addScratchStep} disabled={scratchDraft.typed.trim()===""} className="px-3 py-1 rounded-lg border border-blue-400/50 text-blue-200 hover:bg-blue-500/10 disabled:opacity-40">Add</button>
+                <button onClick={()=>setScratch(list=>list.slice(0,-1))} disabled={scratch.length===0} className="px-3 py-1 rounded-lg border border-neutral-800 hover:bg-black/30 disabled:opacity-40">Undo</button>
+              </div>
+              {scratchCheck.values && (
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                  <span className="text-emerald-300 font-mono">{p.variables.map((v,i)=>`${v} = ${scratchCheck.values![i]}`).join(", ")}</span>
+                  <span className="text-xs text-neutral-400">
+                    {scratch.length} step{scratch.length===1?"":"s"}; the worked route takes {scratchRoute.length} ({Math.round(100*Math.min(1, scratchRoute.length/scratch.length))}% efficient)
+                  </span>
+                  {!rrefMode && <button onClick={fillFromScratch} className="ml-auto px-3 py-1 rounded-lg border border-emerald-400/40 text-emerald-200 hover:bg-emerald-500/10">Use as answer</button>}
+                </div>
+              )}
+            </div>
+          )}
+
+          {rrefMode && (
+            <div className="space-y-2">
+              <div className="text-sm text-neutral-400">Reduced row echelon form of [A | b]{sessionCfg.classify && " — a zero row shows whether there are no solutions or infinitely many"}</div>
+              <div className="inline-grid gap-2 border-x-2 border-neutral-500 rounded-md px-3 py-2" style={{ gridTemplateColumns: `repeat(${p.variables.length+1}, 5.5rem)` }}>
+                {p.eqs.flatMap((_,i)=>Array.from({length: p.variables.length+1}, (_,j)=>{
+                  const key = rrefKey(i, j);
+                  return (
+                    <input key={key} data-answer
+                      value={answer[key]??""}
+                      onFocus={ensureProblemRunning}
+                      onKeyDown={ensureProblemRunning}
+                      onPaste={ensureProblemRunning}
+                      onChange={e=>onAnswerEdit(key, e.target.value)}
+                      aria-label={`Row ${i+1}, column ${j+1}`}
+                      className={`w-full px-2 py-1.5 rounded-lg bg-black/30 border text-center font-mono focus:ring-2 focus:ring-blue-500 ${rrefWrong.includes(key) || inputErr[key] ? "border-red-500/60" : "border-neutral-800"} ${j===p.variables.length ? "ml-2" : ""}`}/>
+                  );
+                }))}
+              </div>
+              {Object.entries(inputErr).slice(0,1).map(([k, err])=>(<div key={k} className="text-xs text-red-400">{k.replace(/^r(\d+)c(\d+)$/, "Row $1, column $2")}: {err}</div>))}
+            </div>
+          )}
+
+          {p.kind!==undefined && !rrefMode && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-neutral-400">Solutions:</span>
+              {(Object.keys(KIND_LABEL) as SystemKind[]).map(k=>(
+                <button key={k} onClick={()=>chooseClaim(k)} aria-pressed={claim===k} aria-keyshortcuts={keys(k)} className={`px-3 py-1.5 rounded-lg border ${claim===k ? "border-blue-400/60 bg-blue-500/15 text-blue-200" : "border-neutral-800 hover:bg-black/30"}`}>{KIND_LABEL[k]}</button>
+              ))}
+              {claim==="infinite" && <span className="text-xs text-neutral-500">write each variable in terms of t; a free variable is just t</span>}
+            </div>
+          )}
+
+          {p.curve && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-neutral-400">Intersection points, in any order — leave a row blank if there are fewer.</span>
+                <button onClick={()=>chooseClaim(claim==="none" ? null : "none")} aria-pressed={claim==="none"} aria-keyshortcuts={keys("none")} className={`ml-auto px-3 py-1.5 rounded-lg border ${claim==="none" ? "border-blue-400/60 bg-blue-500/15 text-blue-200" : "border-neutral-800 hover:bg-black/30"}`}>No real solutions</button>
+              </div>
+              {claim!=="none" && <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 items-start">
+                {PAIR_KEYS.map(([kx, ky], i)=>(
+                  <div key={i} className="space-y-1">
+                    <div className="flex items-center gap-2 rounded-xl border border-neutral-800 bg-black/30 px-3 py-2 font-mono">
+                      <span className="text-neutral-400">(</span>
+                      {[kx, ky].map((name, j)=>(
+                        <React.Fragment key={name}>
+                          {j===1 && <span className="text-neutral-400">,</span>}
+                          <input data-answer
+                            value={answer[name]??""}
+                            onFocus={ensureProblemRunning}
+                            onKeyDown={ensureProblemRunning}
+                            onPaste={ensureProblemRunning}
+                            onChange={e=>onAnswerEdit(name, e.target.value)}
+                            placeholder={name[0]}
+                            aria-label={`${name[0]} of point ${i+1}`}
+                            className={`w-full px-2 py-2 rounded-lg bg-black/30 border focus:ring-2 focus:ring-blue-500 ${inputErr[name] ? "border-red-500/60" : "border-neutral-800"}`}/>
+                        </React.Fragment>
+                      ))}
+                      <span className="text-neutral-400">)</span>
+                    </div>
+                    {(inputErr[kx] || inputErr[ky])
+                      ? <div className="text-xs text-red-400">{inputErr[kx] ?? inputErr[ky]}</div>
+                      : (preview[kx] || preview[ky]) && <div className="text-xs text-neutral-500 font-mono">= ({preview[kx] ?? "?"}, {preview[ky] ?? "?"})</div>}
+                  </div>
+                ))}
+              </div>}
+            </div>
+          )}
+
+          {!p.curve && !rrefMode && (p.kind===undefined || claim==="unique" || claim==="infinite") && <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 items-start">
             {p.variables.map(v => (
               <label key={v} className="flex items-center gap-3 rounded-xl border border-neutral-800 bg-black/30 px-3 py-2">
                 <span className="text-sm text-neutral-300 shrink-0 w-6 text-right">{v} =</span>
-                <input
-                  value={(answer as any)[v]??""}
+                <input data-answer aria-keyshortcuts={v===p.variables[0] ? keys("answer") : undefined}
+                  value={answer[v]??""}
                   onFocus={ensureProblemRunning}
                   onKeyDown={ensureProblemRunning}
                   onPaste={ensureProblemRunning}
                   onChange={e=>onAnswerEdit(v, e.target.value)}
-                  placeholder={config.ansType==="fractions"?"e.g. 9/4":"e.g. 3"}
+                  placeholder={claim==="infinite"?"e.g. 3 - 2t":p.ansType==="fractions"?"e.g. 9/4":"e.g. 3"}
                   className="w-full px-3 py-2 rounded-lg bg-black/30 border border-neutral-800 focus:ring-2 focus:ring-blue-500 font-mono"/>
-                {inputErr[v] && <span className="text-xs text-red-400 ml-1">{inputErr[v]}</span>}
+                {inputErr[v] ? <span className="text-xs text-red-400 ml-1">{inputErr[v]}</span>
+                  : preview[v] && preview[v]!==answer[v]?.trim() && <span className="text-xs text-neutral-500 shrink-0 font-mono">= {preview[v]}</span>}
               </label>
             ))}
-          </div>
+          </div>}
 
           <div className="flex flex-wrap gap-3 items-center justify-between">
             <div className="flex gap-3">
-              <button onClick={submit} className="px-4 py-2 rounded-xl border border-blue-400/50 bg-blue-500/10 hover:bg-blue-500/20 text-blue-200 flex items-center gap-2">
+              <button onClick={submit} aria-keyshortcuts={keys("submit")} className="px-4 py-2 rounded-xl border border-blue-400/50 bg-blue-500/10 hover:bg-blue-500/20 text-blue-200 flex items-center gap-2">
                 <CheckCircle2 className="w-4 h-4"/> Submit
               </button>
-              <button onClick={newProblem} className="px-3 py-2 rounded-xl border border-neutral-800 hover:bg-black/30">Skip / New</button>
+              <button onClick={takeHint} aria-keyshortcuts={keys("hint")} disabled={hints>=HINT_LEVELS || revealed} className="px-3 py-2 rounded-xl border border-amber-400/40 text-amber-200 hover:bg-amber-500/10 disabled:opacity-40 flex items-center gap-2">
+                <Lightbulb className="w-4 h-4"/> Hint {hints}/{HINT_LEVELS}
+              </button>
+              {!p.curve && (
+                <button onClick={()=>setScratchOn(v=>!v)} aria-pressed={scratchOn} aria-keyshortcuts={keys("scratchpad")} className={`px-3 py-2 rounded-xl border flex items-center gap-2 ${scratchOn ? "border-blue-400/60 bg-blue-500/15 text-blue-200" : "border-neutral-800 hover:bg-black/30"}`}>
+                  <ListChecks className="w-4 h-4"/> Scratchpad
+                </button>
+              )}
+              <button onClick={skipProblem} aria-keyshortcuts={keys("skip")} className="px-3 py-2 rounded-xl border border-neutral-800 hover:bg-black/30">Skip / New</button>
             </div>
             {status!=="idle" && (
-              <span className={`text-sm ${status==="correct"?"text-emerald-400":"text-red-400"} flex items-center gap-1`}>
-                {status==="correct"?<>Correct<CheckCircle2 className="w-4 h-4"/></>:<>Try again<XCircle className="w-4 h-4"/></>}
+              <span className={`text-sm ${status==="correct"?"text-emerald-400":status==="unsimplified"?"text-amber-300":"text-red-400"} flex items-center gap-1`}>
+                {status==="correct"?<>Correct<CheckCircle2 className="w-4 h-4"/></>:status==="unsimplified"?<>Correct but not simplified<XCircle className="w-4 h-4"/></>:<>Try again<XCircle className="w-4 h-4"/></>}
               </span>
             )}
           </div>
@@ -684,12 +2558,21 @@ export default function SimulSolveSessions(){
           <ul className="list-disc pl-5 text-sm text-neutral-300 space-y-1">
             {explain.reasons.map((r,i)=>(<li key={i}>{r}</li>))}
           </ul>
-          {explain.correctText && <div className="mt-2 text-sm text-emerald-300">{explain.correctText}</div>}
+          {explain.correctText && <div className="mt-2 text-sm text-emerald-300"><StepText text={explain.correctText}/></div>}
           {explain.steps.length>0 && (
             <div className="mt-3">
-              <div className="text-sm text-neutral-400 mb-1">Optimal steps</div>
+              <div className="flex flex-wrap items-center gap-2 mb-1">
+                <div className="text-sm text-neutral-400">Optimal steps</div>
+                <select value={method} onChange={e=>changeMethod(e.target.value as SolveMethod)} className="bg-black/30 border border-neutral-800 rounded-lg px-2 py-1 text-sm">
+                  {(Object.keys(METHOD_LABEL) as SolveMethod[]).map(m=>(<option key={m} value={m}>{METHOD_LABEL[m]}</option>))}
+                </select>
+                {recommended.method!==method && (
+                  <button onClick={()=>changeMethod(recommended.method)} className="text-xs text-blue-300 hover:text-blue-200">Try {METHOD_LABEL[recommended.method]}</button>
+                )}
+              </div>
+              <div className="text-xs text-neutral-500 mb-2">Recommended: {METHOD_LABEL[recommended.method]} — {recommended.reason}</div>
               <ol className="list-decimal pl-5 text-sm text-neutral-300 space-y-1">
-                {explain.steps.map((s,i)=>(<li key={i}>{s}</li>))}
+                {explain.steps.map((s,i)=>(<li key={i}><StepText text={s}/></li>))}
               </ol>
             </div>
           )}
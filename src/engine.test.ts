@@ -0,0 +1,231 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkScratch, decodeSessionCode, encodeSessionCode, gradeAnswer, gradeRref, paramText, parseAnswer, parseLinearEq, problemFromJSON, rrefKey, scratchRowText,
+} from "./engine.ts";
+import type { Problem, ScratchStep, SessionConfig, StoredProblem } from "./engine.ts";
+
+/** ===== Fixtures ===== */
+const problem = (p: Partial<StoredProblem> & Pick<StoredProblem, "eqs"|"display">): Problem =>
+  problemFromJSON({ id: "t", mode: "2x2", variables: ["x","y"], solution: [], difficulty: "medium", ansType: "fractions", ...p });
+// x + y = 5, 2x − y = 1: (2, 3)
+const P2 = problem({ eqs: [{a:1,b:1,c:0,d:5}, {a:2,b:-1,c:0,d:1}], display: ["x + y = 5", "2x - y = 1"], solution: ["2","3"] });
+// the same system with −y shown on the right of Eq(1)
+const MOVED = problem({ eqs: P2.eqs, display: ["x = 5 - y", "2x - y = 1"], solution: ["2","3"] });
+// 2x = 3, y = 1: (3/2, 1)
+const HALF = problem({ eqs: [{a:2,b:0,c:0,d:3}, {a:0,b:1,c:0,d:1}], display: ["2x = 3", "y = 1"], solution: ["3/2","1"] });
+const NONE = problem({ eqs: [{a:1,b:1,c:0,d:1}, {a:1,b:1,c:0,d:2}], display: ["x + y = 1", "x + y = 2"], kind: "none" });
+const INFINITE = problem({ eqs: [{a:1,b:1,c:0,d:1}, {a:2,b:2,c:0,d:2}], display: ["x + y = 1", "2x + 2y = 2"], kind: "infinite" });
+// y = 2x meets y = x² at (0, 0) and (2, 4)
+const PARABOLA = problem({ mode: "lin-quad", eqs: [{a:-2,b:1,c:0,d:0}], curve: { type: "parabola", a: 1, b: 0, c: 0 }, display: ["y = 2x", "y = x²"] });
+
+const value = (txt: string, parametric = false) => { const r = parseAnswer(txt, parametric); return "value" in r ? paramText(r.value) : r.error; };
+const graded = (p: Problem, answer: Record<string,string>, claim: Parameters<typeof gradeAnswer>[2] = null, lowestTerms = false) => {
+  const g = gradeAnswer(p, answer, claim, lowestTerms);
+  if("error" in g) throw new Error(g.error);
+  return g;
+};
+const kinds = (p: Problem, answer: Record<string,string>, claim: Parameters<typeof gradeAnswer>[2] = null) => (graded(p, answer, claim).mistakes ?? []).map(m=>m.kind);
+
+/** ===== Answer expressions ===== */
+describe("parseAnswer", ()=>{
+  it("reads integers, decimals, fractions and mixed numbers exactly", ()=>{
+    expect(value("3")).toBe("3");
+    expect(value("0.25")).toBe("1/4");
+    expect(value("-3/4")).toBe("-3/4");
+    expect(value("6/8")).toBe("3/4");
+    expect(value("1 1/2")).toBe("3/2");
+    expect(value("-1 1/2")).toBe("-3/2");
+  });
+  it("handles signs, brackets, implicit products and typographic operators", ()=>{
+    expect(value("--2")).toBe("2");
+    expect(value("+-2")).toBe("-2");
+    expect(value("2(3/4)")).toBe("3/2");
+    expect(value("(1 - 3)/4")).toBe("-1/2");
+    expect(value("−2 × 3 ÷ 4")).toBe("-3/2");
+  });
+  it("accepts t only in parametric answers, and only linearly", ()=>{
+    expect(value("3 - 2t", true)).toBe("3 - 2t");
+    expect(value("3t")).toBe("Unexpected “t” at character 2");
+    expect(value("t*t", true)).toBe("t can only be multiplied by a number at character 2");
+    expect(value("1/t", true)).toBe("Cannot divide by t at character 2");
+  });
+  it("names the problem and its position in malformed input", ()=>{
+    expect(value("")).toBe("Expression ends too early at character 1");
+    expect(value("1/0")).toBe("Division by zero at character 2");
+    expect(value("1 1/0")).toBe("Division by zero at character 5");
+    expect(value("(2")).toBe("Unclosed “(” at character 1");
+    expect(value("2 +")).toBe("Expression ends too early at character 4");
+    expect(value("2x")).toBe("Unexpected “x” at character 2");
+  });
+});
+
+/** ===== Answer checking ===== */
+describe("gradeAnswer", ()=>{
+  it("accepts the exact solution in any equivalent form", ()=>{
+    expect(graded(P2, { x: "2", y: "3" }).ok).toBe(true);
+    expect(graded(P2, { x: "4/2", y: "1.5*2" }).ok).toBe(true);
+    expect(graded(HALF, { x: "1 1/2", y: "1" }).ok).toBe(true);
+  });
+  it("reports residuals and the solution for a wrong answer", ()=>{
+    const g = graded(P2, { x: "1", y: "1" });
+    expect(g.ok).toBe(false);
+    expect(g.residuals).toEqual(["-3", "0"]);
+    expect(g.correctText).toContain("2");
+  });
+  it("marks right values that are not in lowest terms only when asked to", ()=>{
+    expect(graded(HALF, { x: "6/4", y: "1" }).ok).toBe(true);
+    const g = graded(HALF, { x: "6/4", y: "1" }, null, true);
+    expect(g.ok).toBe(false);
+    expect(g.unsimplified).toBe(true);
+    expect(graded(HALF, { x: "1 2/4", y: "1" }, null, true).unsimplified).toBe(true);
+    expect(graded(HALF, { x: "1 1/2", y: "1" }, null, true).ok).toBe(true);
+    expect(graded(HALF, { x: "(3/2)", y: "+1" }, null, true).ok).toBe(true);
+    expect(graded(HALF, { x: "3/2", y: "2/2" }, null, true).unsimplified).toBe(true);
+  });
+  it("checks the claimed case in classify problems", ()=>{
+    expect(graded(NONE, {}, "none").ok).toBe(true);
+    expect(kinds(NONE, { x: "0", y: "1" }, "unique")).toEqual(["wrong-case"]);
+    expect(graded(INFINITE, { x: "t", y: "1 - t" }, "infinite").ok).toBe(true);
+    const point = graded(INFINITE, { x: "0", y: "1" }, "infinite");
+    expect(point.ok).toBe(false);
+    expect(point.feedback[0]).toMatch(/no t in it/);
+  });
+  it("refuses to grade a singular system that was not served for classifying", ()=>{
+    expect(gradeAnswer({ ...NONE, kind: undefined }, { x: "0", y: "0" }, null)).toEqual({ error: "Singular system — generate a new one." });
+  });
+});
+
+describe("mistake diagnosis (linear)", ()=>{
+  it("spots swapped values and flipped signs", ()=>{
+    expect(kinds(P2, { x: "3", y: "2" })).toContain("swapped");
+    expect(kinds(P2, { x: "-2", y: "-3" })).toContain("sign");
+  });
+  it("spots values that fit only one equation", ()=>{
+    expect(kinds(P2, { x: "0", y: "5" })).toContain("one-equation");
+  });
+  it("spots a term moved across = without changing sign", ()=>{
+    // x = 5 − y read as x − y = 5, with 2x − y = 1: (−4, −9)
+    expect(kinds(MOVED, { x: "-4", y: "-9" })).toContain("moved-term");
+  });
+  it("falls back to unclassified", ()=>{
+    expect(kinds(P2, { x: "7", y: "-11" })).toEqual(["other"]);
+  });
+});
+
+describe("intersection answers", ()=>{
+  it("accepts the points in any order", ()=>{
+    expect(graded(PARABOLA, { x1: "2", y1: "4", x2: "0", y2: "0" }).ok).toBe(true);
+    expect(graded(PARABOLA, { x1: "0", y1: "0", x2: "2", y2: "4" }).ok).toBe(true);
+  });
+  it("diagnoses swapped coordinates, missing points and the wrong case", ()=>{
+    expect(kinds(PARABOLA, { x1: "4", y1: "2", x2: "0", y2: "0" })).toContain("swapped");
+    expect(kinds(PARABOLA, { x1: "2", y1: "4" })).toEqual(["missing-point"]);
+    expect(kinds(PARABOLA, {}, "none")).toEqual(["wrong-case"]);
+  });
+  it("rejects half-entered pairs", ()=>{
+    expect(gradeAnswer(PARABOLA, { x1: "2", y1: "" }, null)).toHaveProperty("error");
+  });
+});
+
+describe("gradeRref", ()=>{
+  const rref = (cells: string[][]) => Object.fromEntries(cells.flatMap((row,i)=>row.map((v,j)=>[rrefKey(i, j), v])));
+  it("accepts the reduced matrix [I | X]", ()=>{
+    const g = gradeRref(P2, rref([["1","0","2"], ["0","1","3"]]));
+    expect("error" in g ? g.error : g.ok).toBe(true);
+  });
+  it("lists the entries that differ", ()=>{
+    const g = gradeRref(P2, rref([["1","0","2"], ["0","1","4"]]));
+    expect("error" in g ? g.error : [g.ok, g.wrong]).toEqual([false, ["r2c3"]]);
+  });
+  it("reduces singular systems to their zero row", ()=>{
+    const g = gradeRref(INFINITE, rref([["1","1","1"], ["0","0","0"]]));
+    expect("error" in g ? g.error : g.ok).toBe(true);
+  });
+});
+
+/** ===== Scratchpad ===== */
+describe("parseLinearEq", ()=>{
+  const row = (text: string, vars = ["x","y"]) => { const r = parseLinearEq(text, vars); return r && scratchRowText(r, vars); };
+  it("gathers variables left and constants right", ()=>{
+    expect(row("3x - (1/2)y = 4")).toBe("3x - (1/2)y = 4");
+    expect(row("8x + 32 = 14")).toBe("8x = -18");
+    expect(row("y = 5 - x")).toBe("x + y = 5");
+    expect(row("x + -2y = 1")).toBe("x - 2y = 1");
+    expect(row("2x - 3z = 1", ["x","y","z"])).toBe("2x - 3z = 1");
+  });
+  it("rejects what is not a linear equation in the problem's variables", ()=>{
+    expect(row("x + y")).toBeNull();
+    expect(row("x = ")).toBeNull();
+    expect(row("x = 1 = 2")).toBeNull();
+    expect(row("2z = 1")).toBeNull();
+    expect(row("xy = 1")).toBeNull();
+  });
+});
+
+describe("checkScratch", ()=>{
+  const route: ScratchStep[] = [
+    { op: "rearrange", eq: 0, typed: "x + y = 5" },
+    { op: "rearrange", eq: 1, typed: "2x - y = 1" },
+    { op: "combine", row: 1, k: "1", other: 0, typed: "3x = 6" },
+    { op: "scale", row: 2, k: "1/3", typed: "x = 2" },
+    { op: "substitute", row: 0, from: 3, typed: "y = 3" },
+  ];
+  it("accepts a full elimination and reads off the values", ()=>{
+    const c = checkScratch(P2, route);
+    expect(c.checks.map(s=>s.ok)).toEqual([true, true, true, true, true]);
+    expect(c.firstInvalid).toBeNull();
+    expect(c.values).toEqual(["2", "3"]);
+  });
+  it("lets a rearranged line be scaled", ()=>{
+    expect(checkScratch(P2, [{ op: "rearrange", eq: 0, typed: "2x + 2y = 10" }]).checks[0].ok).toBe(true);
+  });
+  it("flags the first slip with what the operation gives, and withholds values", ()=>{
+    const c = checkScratch(P2, route.map((s,i)=>i===2 ? { ...s, typed: "3x = 7" } : s));
+    expect(c.firstInvalid).toBe(2);
+    expect(c.checks[2].note).toBe("R2 + (1) × R1 gives 3x = 6.");
+    expect(c.values).toBeNull();
+  });
+  it("explains steps that cannot be read or applied", ()=>{
+    const c = checkScratch(P2, [
+      { op: "rearrange", eq: 0, typed: "blah" },
+      { op: "scale", row: 5, k: "2", typed: "x = 1" },
+      { op: "rearrange", eq: 1, typed: "2x - y = 1" },
+      { op: "scale", row: 2, k: "0", typed: "0x = 0" },
+    ]);
+    expect(c.checks[0].note).toMatch(/^Type the resulting equation/);
+    expect(c.checks[1].note).toBe("Cannot apply: there is no R6 yet.");
+    expect(c.checks[3].note).toBe("Cannot apply: scaling by 0 loses the equation.");
+  });
+});
+
+/** ===== Session codes ===== */
+describe("session codes", ()=>{
+  const base: SessionConfig = { minutes: 10, format: "timed", mode: "2x2", difficulty: "medium", ansType: "fractions", method: "elimination" };
+  const seed = parseInt("4K9QZA", 36);
+  it("encodes the documented example", ()=>{
+    expect(encodeSessionCode(base, seed)).toBe("2MF10-4K9QZA");
+  });
+  it.each<[string, SessionConfig]>([
+    ["timed", base],
+    ["sprint with every flag", { ...base, format: "sprint", sprintCount: 20, mode: "3x3", difficulty: "hard", ansType: "integers", classify: true, lowestTerms: true, present: "matrix", rref: true }],
+    ["adaptive survival", { ...base, format: "survival", adaptive: true }],
+    ["untimed circles", { ...base, format: "untimed", mode: "lin-circle", difficulty: "easy" }],
+    // a mixed config mirrors its first component
+    ["mixed pool", { ...base, minutes: 25, difficulty: "easy", ansType: "integers", mix: [{ mode: "2x2", difficulty: "easy", ansType: "integers", weight: 60 }, { mode: "lin-quad", difficulty: "hard", ansType: "fractions", weight: 40 }] }],
+  ])("round-trips a %s config", (_, cfg)=>{
+    const code = encodeSessionCode(cfg, seed), back = decodeSessionCode(code);
+    expect(back).not.toBeNull();
+    expect(encodeSessionCode({ ...base, ...back! }, back!.seed)).toBe(code);
+    expect(back).toMatchObject({ seed, format: cfg.format, mode: cfg.mode, difficulty: cfg.difficulty, ansType: cfg.ansType, classify: !!cfg.classify, lowestTerms: !!cfg.lowestTerms, rref: !!cfg.rref });
+  });
+  it("reads lower case and surrounding spaces, and rejects anything else", ()=>{
+    expect(decodeSessionCode(" 2mf10-4k9qza ")?.seed).toBe(seed);
+    expect(decodeSessionCode("2MF10")).toBeNull();
+    expect(decodeSessionCode("9MF10-4K9QZA")).toBeNull();
+    expect(decodeSessionCode("2MF10-4K9QZA7")).toBeNull();
+  });
+  it("clamps lengths into range", ()=>{
+    expect(decodeSessionCode("2MF99-1")?.minutes).toBe(90);
+    expect(decodeSessionCode("2MFS2-1")?.sprintCount).toBe(3);
+  });
+});
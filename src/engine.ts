@@ -0,0 +1,1540 @@
+/**
+ * SimulSolve problem engine: generators, exact solvers, worked steps, answer checking and the session
+ * rules built on them (codes, rating, adaptive level, review queue). No React and no browser APIs, so the
+ * app and the command-line tool (cli/simulsolve.ts) share it. The core calls:
+ *   genProblem / serveProblem   a problem, from Math.random or a seeded session
+ *   gradeAnswer / gradeRref     check typed answers (values, or a reduced matrix) exactly
+ *   explainSteps                worked steps by a chosen method
+ *   checkScratch                the learner's own row operations, checked step by step
+ */
+
+/** ===== Types ===== */
+export type Difficulty = "easy" | "medium" | "hard";
+export type Mode = "2x2" | "3x3" | "lin-quad" | "lin-circle";
+export type AnswerType = "integers" | "fractions";
+export type SolveMethod = "elimination" | "substitution" | "cramer" | "inverse" | "gauss-jordan";
+export type Presentation = "equations" | "augmented" | "matrix";
+export type ReviewMode = "mix" | "off" | "only";
+export type ReviewAs = "same" | "fresh";
+export type SystemKind = "unique" | "none" | "infinite";
+
+interface EquationStd { a: number; b: number; c: number; d: number; } // ax + by (+ cz) = d
+type Curve =
+  | { type: "parabola"; a: number; b: number; c: number }   // y = ax² + bx + c
+  | { type: "circle"; h: number; k: number; r2: number };   // (x − h)² + (y − k)² = r²
+export interface Problem {
+  id: string;
+  mode: Mode;
+  variables: ("x" | "y" | "z")[];
+  eqs: EquationStd[];
+  display: string[];
+  solution: Rational[];   // exact, in variable order; empty unless the system has a unique solution
+  difficulty: Difficulty; // as served (adaptive sessions vary this per problem)
+  ansType: AnswerType;
+  kind?: SystemKind;      // set in classify sessions, where the learner must name the case first
+  curve?: Curve;          // nonlinear modes: eqs holds the line, this is the second equation
+}
+export interface LifetimeStats { totalAttempts: number; totalCorrect: number; totalTimeSec: number; }
+
+export type AttemptRecord = {
+  ts: number;             // per-attempt timestamp
+  seconds: number;        // time taken for that attempt
+  correct: boolean;
+  difficulty: Difficulty;
+  mode: Mode;
+  level?: number;         // adaptive level the problem was served at
+  review?: boolean;       // served from the review queue
+  unsimplified?: boolean; // right values, but not in lowest terms (lowest-terms sessions)
+  mistakes?: MistakeKind[];  // diagnosed error patterns on a wrong answer
+  hints?: number;         // hints taken on this problem before the attempt
+  ansType?: AnswerType;
+  rating?: number;        // difficulty estimate of the problem (problemRating)
+  scratch?: ScratchSummary;   // scratchpad work shown before the attempt
+};
+
+export type SessionFormat = "timed" | "sprint" | "survival" | "untimed";
+export type MixComponent = { mode: Mode; difficulty: Difficulty; ansType: AnswerType; weight: number };
+export type MixPreset = { name: string; mix: MixComponent[] };
+
+export type SessionConfig = {
+  minutes: number;          // timed sessions only
+  format?: SessionFormat;   // absent in sessions saved before formats existed: timed
+  sprintCount?: number;     // sprint: problems to solve
+  mode: Mode;
+  difficulty: Difficulty;
+  ansType: AnswerType;
+  method: SolveMethod;      // method used for worked steps
+  seed?: number;            // problem i is generated from problemRng(seed, i)
+  adaptive?: boolean;       // level starts from difficulty, then follows performance
+  review?: ReviewMode;      // how due review items are mixed in
+  reviewAs?: ReviewAs;
+  classify?: boolean;       // mix in systems with no solution or infinitely many
+  lowestTerms?: boolean;    // unsimplified values are "correct but not simplified"
+  present?: Presentation;   // how linear systems are shown; absent: equations
+  rref?: boolean;           // linear systems are answered with their reduced augmented matrix
+  mix?: MixComponent[];     // weighted pool; mode, difficulty and ansType then mirror the first component
+};
+
+export type SessionSummary = {
+  id: string;
+  startedAt: number;
+  durationMin: number;          // intended duration
+  actualSeconds: number;        // actual elapsed
+  attempts: number;
+  correct: number;
+  accuracyPct: number;
+  avgTimePerAttempt: number;    // seconds
+  avgTimeAdj: number;           // seconds scaled by each problem's rating weight
+  problemsPerMin: number;
+  config: SessionConfig;
+  levelPath?: number[];         // adaptive level, start then after each attempt
+  mistakes?: Partial<Record<MistakeKind, number>>;   // diagnosis counts over the session's attempts
+  score?: number;               // rating-weighted correct answers, less hint costs
+  hints?: number;               // hints taken across the session
+  sprintSeconds?: number;       // sprint: stopwatch time for all N, when the sprint was finished
+  survived?: number;            // survival: problems solved before the last life went
+  components?: ComponentStats[];   // mixed sessions: results per pool component
+  ratingPath?: number[];        // learner rating, start then after each rated attempt
+  pauses?: PauseStats;
+  duel?: DuelSummary;           // a local duel: how this player did against the other
+};
+export type PauseStats = { count: number; auto: number; seconds: number };   // auto: pauses because the page was hidden
+type ComponentStats = { mode: Mode; difficulty: Difficulty; ansType: AnswerType; attempts: number; correct: number; avgTime: number; score: number };
+
+/** ===== Math helpers ===== */
+const rnd = (rng: Rng, min: number, max: number) => Math.floor(rng() * (max - min + 1)) + min;
+const choice = <T,>(rng: Rng, arr: T[]) => arr[Math.floor(rng() * arr.length)];
+const igcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : igcd(b, a % b));
+const lcm2 = (a: number, b: number) => Math.abs(a * b) / igcd(a, b);
+const lcm3 = (a: number, b: number, c: number) => lcm2(lcm2(a, b), c);
+export const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
+
+/** ===== Seeded randomness & session codes ===== */
+type Rng = () => number;   // uniform in [0, 1)
+function mulberry32(seed: number): Rng {
+  let t = seed >>> 0;
+  return () => {
+    t = (t + 0x6D2B79F5) >>> 0;
+    let r = Math.imul(t ^ (t >>> 15), 1 | t);
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r;
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+}
+/** Independent stream for the index-th problem of a seeded session, so skips and retries never shift later problems. */
+const problemRng = (seed: number, index: number) => mulberry32(Math.imul(seed ^ 0x9E3779B9, 0x85EBCA6B) + Math.imul(index + 1, 0xC2B2AE35));
+export const randomSeed = () => Math.floor(Math.random() * 36**6);
+const DIFF_CODE: Record<Difficulty, string> = { easy:"E", medium:"M", hard:"H" };
+const MODE_CODE: Record<Mode, string> = { "2x2":"2", "3x3":"3", "lin-quad":"Q", "lin-circle":"O" };
+export const MODE_LABEL: Record<Mode, string> = { "2x2":"2×2", "3x3":"3×3", "lin-quad":"line + parabola", "lin-circle":"line + circle" };
+export const FORMAT_LABEL: Record<SessionFormat, string> = { timed:"Timed", sprint:"Sprint", survival:"Survival", untimed:"Untimed practice" };
+export const SURVIVAL_LIVES = 3;
+/** Length part of a session code: minutes, "S" + problem count, "V" for survival or "U" for untimed. */
+function lengthCode(c: SessionConfig){
+  switch(c.format ?? "timed"){
+    case "sprint": return `S${c.sprintCount}`;
+    case "survival": return "V";
+    case "untimed": return "U";
+    default: return `${c.minutes}`;
+  }
+}
+export function formatText(c: SessionConfig){
+  switch(c.format ?? "timed"){
+    case "sprint": return `sprint ${c.sprintCount}`;
+    case "survival": return "survival";
+    case "untimed": return "untimed";
+    default: return `${c.minutes} min`;
+  }
+}
+/**
+ * Short shareable code, e.g. "2MF10-4K9QZA" = 2×2, medium, fractions, 10 min, seed ("10A" = adaptive, "10C" = classify, "10L" = lowest terms,
+ * "10G" / "10M" = shown as [A | b] / AX = B, "10R" = RREF answers; "S20" = sprint of 20, "V" = survival, "U" = untimed). A mixed pool replaces
+ * the first three letters with "X" and weighted kinds: "X2MF60~3EI40~10-…".
+ */
+export function encodeSessionCode(c: SessionConfig, seed: number){
+  const kind = (m: Pick<MixComponent, "mode"|"difficulty"|"ansType">) => `${MODE_CODE[m.mode]}${DIFF_CODE[m.difficulty]}${m.ansType==="integers"?"I":"F"}`;
+  return `${c.mix ? `X${c.mix.map(m=>`${kind(m)}${m.weight}~`).join("")}` : kind(c)}${lengthCode(c)}${c.adaptive?"A":""}${c.classify?"C":""}${c.lowestTerms?"L":""}${c.present==="augmented"?"G":c.present==="matrix"?"M":""}${c.rref?"R":""}-${seed.toString(36).toUpperCase()}`;
+}
+export function decodeSessionCode(code: string): (Pick<SessionConfig, "minutes"|"format"|"sprintCount"|"mode"|"difficulty"|"ansType"|"adaptive"|"classify"|"lowestTerms"|"present"|"rref"|"mix"> & { seed: number }) | null {
+  const m = /^([23QO][EMH][IF]|X(?:[23QO][EMH][IF]\d{1,3}~){1,6})(\d{1,2}|S\d{1,2}|V|U)(A?)(C?)(L?)([GM]?)(R?)-([0-9A-Z]{1,6})$/i.exec(code.trim().toUpperCase());
+  if(!m) return null;
+  const kind = (k: string) => ({
+    mode: (Object.keys(MODE_CODE) as Mode[]).find(x=>MODE_CODE[x]===k[0])!, difficulty: (Object.keys(DIFF_CODE) as Difficulty[]).find(d=>DIFF_CODE[d]===k[1])!,
+    ansType: (k[2]==="I" ? "integers" : "fractions") as AnswerType,
+  });
+  const mix = m[1][0]==="X" ? [...m[1].matchAll(/([23QO][EMH][IF])(\d{1,3})~/g)].map(c=>({ ...kind(c[1]), weight: Math.max(1, Math.min(100, Number(c[2]))) })) : undefined;
+  const len = m[2];
+  const length: Pick<SessionConfig, "minutes"|"format"|"sprintCount"> =
+    len==="V" ? { minutes: 10, format: "survival" } : len==="U" ? { minutes: 10, format: "untimed" }
+    : len[0]==="S" ? { minutes: 10, format: "sprint", sprintCount: Math.max(3, Math.min(50, Number(len.slice(1)))) }
+    : { minutes: Math.max(3, Math.min(90, Number(len))), format: "timed" };
+  return {
+    ...kind(mix ? m[1].slice(1) : m[1]), ...(mix ? { mix } : {}),
+    ...length, adaptive: !mix && m[3]!=="", classify: m[4]!=="", lowestTerms: m[5]!=="",
+    present: m[6]==="G" ? "augmented" : m[6]==="M" ? "matrix" : "equations", rref: m[7]!=="", seed: parseInt(m[8], 36),
+  };
+}
+/** Whether a sprint or survival session has met its end condition; timed sessions end on the clock, untimed ones by hand. */
+export function formatFinished(c: SessionConfig, attempts: AttemptRecord[]){
+  if(c.format==="sprint") return attempts.filter(a=>a.correct).length >= (c.sprintCount ?? 0);
+  if(c.format==="survival") return livesLost(attempts) >= SURVIVAL_LIVES;
+  return false;
+}
+/** A wrong answer costs a life; a right-but-unsimplified one does not. */
+export const livesLost = (attempts: AttemptRecord[]) => attempts.filter(a=>!a.correct && !a.unsimplified).length;
+
+/** ===== Exact rationals (bigint num/den, den > 0, always reduced) ===== */
+type Rational = { readonly n: bigint; readonly d: bigint };
+const bgcd = (a: bigint, b: bigint): bigint => { a = a<0n?-a:a; b = b<0n?-b:b; while(b!==0n){ [a,b]=[b,a%b]; } return a; };
+function rat(n: bigint|number, d: bigint|number = 1n): Rational {
+  let N = BigInt(n), D = BigInt(d);
+  if (D === 0n) throw new RangeError("Rational with zero denominator");
+  if (D < 0n) { N = -N; D = -D; }
+  const g = bgcd(N, D) || 1n;
+  return { n: N/g, d: D/g };
+}
+const RZERO = rat(0);
+const ratAdd = (a: Rational, b: Rational) => rat(a.n*b.d + b.n*a.d, a.d*b.d);
+const ratSub = (a: Rational, b: Rational) => rat(a.n*b.d - b.n*a.d, a.d*b.d);
+const ratMul = (a: Rational, b: Rational) => rat(a.n*b.n, a.d*b.d);
+const ratDiv = (a: Rational, b: Rational) => rat(a.n*b.d, a.d*b.n);
+const ratNeg = (a: Rational): Rational => ({ n: -a.n, d: a.d });
+const ratEq = (a: Rational, b: Rational) => a.n===b.n && a.d===b.d;
+const ratIsZero = (a: Rational) => a.n===0n;
+const ratAbs = (a: Rational) => a.n<0n? ratNeg(a) : a;
+const ratCmp = (a: Rational, b: Rational) => { const t = a.n*b.d - b.n*a.d; return t<0n? -1 : t>0n? 1 : 0; };
+const ratToText = (a: Rational) => a.d===1n ? `${a.n}` : `${a.n}/${a.d}`;
+const bsqrt = (n: bigint): bigint | null => {
+  if(n<2n) return n<0n ? null : n;
+  let x = n, y = (n+1n)/2n; while(y<x){ x = y; y = (x + n/x)/2n; }
+  return x*x===n ? x : null;
+};
+/** Exact square root, or null when it is irrational. */
+function ratSqrt(a: Rational){ const p = bsqrt(a.n), q = bsqrt(a.d); return p===null || q===null ? null : rat(p, q); }
+/** Integer value of a rational that is known to be whole (generator invariant). */
+function ratToInt(a: Rational){ if(a.d!==1n) throw new RangeError(`Expected an integer, got ${ratToText(a)}`); return Number(a.n); }
+/** Parses an integer, a terminating decimal ("-1.25", ".5") or a quotient of those ("9/4"). */
+function parseRational(txt: string): Rational | null {
+  const parseDec = (t: string): Rational | null => {
+    const m = /^([+-])?(\d*)(?:\.(\d*))?$/.exec(t.trim());
+    if(!m || (m[2]+(m[3]??"")) === "") return null;
+    const frac = m[3] ?? "";
+    const r = rat(BigInt((m[2]||"0")+frac), 10n**BigInt(frac.length));
+    return m[1]==="-" ? ratNeg(r) : r;
+  };
+  const parts = txt.trim().split("/");
+  if(parts.length>2) return null;
+  const p = parseDec(parts[0]); if(!p) return null;
+  if(parts.length===1) return p;
+  const q = parseDec(parts[1]); if(!q || ratIsZero(q)) return null;
+  return ratDiv(p, q);
+}
+/** a·x + b·y (+ c·z) − d for exact values of the variables. */
+function residual(e: EquationStd, vals: Rational[]){
+  const [x=RZERO, y=RZERO, z=RZERO] = vals;
+  return ratSub(ratAdd(ratAdd(ratMul(rat(e.a),x), ratMul(rat(e.b),y)), ratMul(rat(e.c),z)), rat(e.d));
+}
+
+/** ===== Answer expressions ===== */
+type LinT = { c: Rational; k: Rational };   // c + k·t; k is zero unless the answer is parametric
+type ParsedAnswer = { value: LinT } | { error: string };
+/**
+ * Recursive-descent parser for answer fields: decimals, fractions, mixed numbers ("1 1/2"), unary
+ * signs, parentheses, + − × ÷ and implicit products ("2(3/4)", "3t"). `t` is only accepted when
+ * `parametric` is set, and only linearly. Errors name the offending character and its position.
+ */
+export function parseAnswer(txt: string, parametric = false): ParsedAnswer {
+  const src = txt.replace(/[−–]/g, "-").replace(/[×·]/g, "*").replace(/÷/g, "/");
+  let i = 0;
+  const fail = (msg: string, at = i): never => { throw { error: `${msg} at character ${at+1}` }; };
+  const peek = ()=>{ while(src[i]===" ") i++; return src[i]; };
+  const num = (c: Rational): LinT => ({ c, k: RZERO });
+  const isConst = (v: LinT)=> ratIsZero(v.k);
+  const mul = (a: LinT, b: LinT, at: number): LinT => {
+    if(!isConst(a) && !isConst(b)) fail("t can only be multiplied by a number", at);
+    return isConst(a) ? { c: ratMul(a.c, b.c), k: ratMul(a.c, b.k) } : { c: ratMul(a.c, b.c), k: ratMul(a.k, b.c) };
+  };
+  const div = (a: LinT, b: LinT, at: number): LinT => {
+    if(!isConst(b)) fail("Cannot divide by t", at);
+    if(ratIsZero(b.c)) fail("Division by zero", at);
+    return { c: ratDiv(a.c, b.c), k: ratDiv(a.k, b.c) };
+  };
+  const number = (): LinT => {
+    const m = /^(\d+\.?\d*|\.\d+)/.exec(src.slice(i))!;
+    i += m[0].length;
+    // a whole number, spaces, then p/q is a mixed number
+    const mixed = /^\d+$/.test(m[0]) ? /^ +(\d+)\/(\d+)(?![\d.])/.exec(src.slice(i)) : null;
+    if(!mixed) return num(parseRational(m[0])!);
+    if(/^0+$/.test(mixed[2])) fail("Division by zero", i + mixed[0].length - 1);
+    i += mixed[0].length;
+    return num(ratAdd(rat(BigInt(m[0])), rat(BigInt(mixed[1]), BigInt(mixed[2]))));
+  };
+  const primary = (): LinT => {
+    const c = peek();
+    if(c===undefined) fail("Expression ends too early");
+    if(c==="("){
+      const open = i++; const v = expr();
+      if(peek()!==")") fail(src[i]===undefined ? "Unclosed “(”" : `Expected “)” but found “${src[i]}”`, src[i]===undefined ? open : i);
+      i++; return v;
+    }
+    if(c==="t" && parametric){ i++; return { c: RZERO, k: rat(1) }; }
+    if(/[\d.]/.test(c)) return number();
+    return fail(`Unexpected “${c}”`);
+  };
+  const unary = (): LinT => {
+    const c = peek();
+    if(c==="+" || c==="-"){ i++; const v = unary(); return c==="-" ? { c: ratNeg(v.c), k: ratNeg(v.k) } : v; }
+    return primary();
+  };
+  const term = (): LinT => {
+    let v = unary();
+    for(;;){
+      const c = peek(), at = i;
+      if(c==="*" || c==="/"){ i++; const r = unary(); v = c==="*" ? mul(v, r, at) : div(v, r, at); }
+      else if(c==="(" || (c==="t" && parametric)) v = mul(v, primary(), at);
+      else return v;
+    }
+  };
+  const expr = (): LinT => {
+    let v = term();
+    for(;;){
+      const c = peek();
+      if(c!=="+" && c!=="-") return v;
+      i++; const r = term();
+      v = c==="+" ? { c: ratAdd(v.c, r.c), k: ratAdd(v.k, r.k) } : { c: ratSub(v.c, r.c), k: ratSub(v.k, r.k) };
+    }
+  };
+  try{
+    const v = expr();
+    if(peek()!==undefined) fail(`Unexpected “${src[i]}”`);
+    return { value: v };
+  }catch(e){
+    if(typeof e==="object" && e!==null && "error" in e) return e as { error: string };
+    throw e;
+  }
+}
+/** Written as an integer, a reduced fraction p/q (optionally in brackets) or a mixed number with a reduced proper part. */
+function inLowestTerms(txt: string){
+  const t = txt.replace(/[−–]/g, "-").trim().replace(/^\+/, "").replace(/^(-?)\((.*)\)$/, "$1$2").trim();
+  const whole = (d: string)=> d==="0" || !d.startsWith("0");
+  let m = /^-?(\d+)$/.exec(t);
+  if(m) return whole(m[1]) && t!=="-0";
+  m = /^-?(\d+)\/(\d+)$/.exec(t);
+  if(m) return whole(m[1]) && !m[2].startsWith("0") && m[2]!=="1" && igcd(Number(m[1]), Number(m[2]))===1;
+  m = /^-?(\d+) +(\d+)\/(\d+)$/.exec(t);
+  return !!m && whole(m[1]) && m[1]!=="0" && Number(m[2])<Number(m[3]) && !m[2].startsWith("0") && igcd(Number(m[2]), Number(m[3]))===1;
+}
+export const paramText = (v: LinT) => ratIsZero(v.k) ? ratToText(v.c) : termsText([{k:v.c, v:""}, {k:v.k, v:"t"}]);
+
+/** ===== Solvers (exact) ===== */
+function solve2(e1: EquationStd, e2: EquationStd){
+  const D = e1.a*e2.b - e1.b*e2.a; if (D===0) return null;
+  const Dx = e1.d*e2.b - e1.b*e2.d; const Dy = e1.a*e2.d - e1.d*e2.a;
+  return { x: rat(Dx, D), y: rat(Dy, D) } as const;
+}
+function solve3(eq: EquationStd[]){
+  const A = eq.map(e=>[e.a,e.b,e.c,e.d].map(v=>rat(v)));
+  for(let c=0;c<3;c++){
+    let p=c; while(p<3 && ratIsZero(A[p][c])) p++;
+    if(p===3) return null; if(p!==c)[A[p],A[c]]=[A[c],A[p]];
+    for(let r=c+1;r<3;r++){ const f=ratDiv(A[r][c],A[c][c]); for(let k=c;k<=3;k++) A[r][k]=ratSub(A[r][k], ratMul(f,A[c][k])); }
+  }
+  const z=ratDiv(A[2][3],A[2][2]);
+  const y=ratDiv(ratSub(A[1][3],ratMul(A[1][2],z)),A[1][1]);
+  const x=ratDiv(ratSub(ratSub(A[0][3],ratMul(A[0][2],z)),ratMul(A[0][1],y)),A[0][0]);
+  return {x,y,z} as const;
+}
+/** Exact solution in variable order, or null when the system is singular (or not linear). */
+export function solveProblem(p: Problem): Rational[] | null {
+  if(p.curve) return null;
+  if(p.mode==="2x2"){ const s=solve2(p.eqs[0], p.eqs[1]); return s? [s.x, s.y] : null; }
+  const s=solve3(p.eqs); return s? [s.x, s.y, s.z] : null;
+}
+type SystemAnalysis =
+  | { kind: "unique"; solution: Rational[] }
+  | { kind: "none" }
+  | { kind: "infinite"; point: Rational[]; dirs: Rational[][] };   // point + Σ PARAMS[i]·dirs[i]
+const PARAMS = ["t", "s"];
+export const KIND_LABEL: Record<SystemKind, string> = { unique: "Exactly one", none: "None", infinite: "Infinitely many" };
+const augmented = (eqs: EquationStd[], n: number) => eqs.map(e=>[e.a,e.b,e.c].slice(0,n).concat(e.d).map(v=>rat(v)));
+/**
+ * Gauss–Jordan on [A | d]: swap a pivot up, scale it to 1, clear the rest of its column. `log` gets each
+ * row operation with the matrix just after it.
+ */
+function reduceRows(start: Rational[][], n: number, log?: (op: string, M: Rational[][]) => void){
+  const M = start.map(row=>row.slice()), R = (i: number) => `R${i+1}`;
+  const pivotCols: number[] = [];
+  for(let c=0, r=0; c<n && r<M.length; c++){
+    const p = M.findIndex((row,i)=>i>=r && !ratIsZero(row[c]));
+    if(p<0) continue;
+    if(p!==r){ [M[p], M[r]] = [M[r], M[p]]; log?.(`${R(r)} ↔ ${R(p)}`, M); }
+    const pv = M[r][c];
+    if(!ratEq(pv, rat(1))){ M[r] = M[r].map(v=>ratDiv(v, pv)); log?.(`${R(r)} → ${termsText([{k:ratDiv(rat(1), pv), v:R(r)}])}`, M); }
+    for(let i=0;i<M.length;i++) if(i!==r && !ratIsZero(M[i][c])){
+      const f=M[i][c]; M[i]=M[i].map((v,k)=>ratSub(v, ratMul(f, M[r][k])));
+      log?.(`${R(i)} → ${termsText([{k:rat(1), v:R(i)}, {k:ratNeg(f), v:R(r)}])}`, M);
+    }
+    pivotCols.push(c); r++;
+  }
+  return { M, pivotCols };
+}
+/** Reduced row echelon form of [A | d], read off as one of the three cases; free variables become the parameters. */
+function analyzeSystem(eqs: EquationStd[], n: number): SystemAnalysis {
+  const { M, pivotCols } = reduceRows(augmented(eqs, n), n);
+  if(M.slice(pivotCols.length).some(row=>!ratIsZero(row[n]))) return { kind:"none" };
+  const point = Array.from({length:n}, ()=>RZERO);
+  pivotCols.forEach((c,i)=>{ point[c] = M[i][n]; });
+  if(pivotCols.length===n) return { kind:"unique", solution: point };
+  const free = point.map((_,i)=>i).filter(i=>!pivotCols.includes(i));
+  const dirs = free.map(f=> point.map((_,c)=> c===f ? rat(1) : pivotCols.includes(c) ? ratNeg(M[pivotCols.indexOf(c)][f]) : RZERO));
+  return { kind:"infinite", point, dirs };
+}
+type ProblemShape = Pick<Problem, "variables" | "eqs" | "curve">;
+/** What the learner typed, including the case they picked in classify sessions. */
+export function answerText(prob: ProblemShape, answer: Record<string,string>){
+  if(answer.kind==="none") return "no solution";
+  if(answer[rrefKey(0, 0)]!==undefined){
+    const n = prob.variables.length;
+    return `RREF [${prob.eqs.map((_,i)=>Array.from({length: n+1}, (_,j)=>`${j===n ? "| " : ""}${answer[rrefKey(i, j)] || "?"}`).join(" ")).join("; ")}]`;
+  }
+  if(prob.curve) return PAIR_KEYS.filter(([kx,ky])=>answer[kx] || answer[ky]).map(([kx,ky])=>`(${answer[kx] ?? ""}, ${answer[ky] ?? ""})`).join(", ");
+  const vals = prob.variables.map(v=>`${v} = ${answer[v] ?? ""}`).join(", ");
+  return answer.kind==="infinite" ? `infinitely many: ${vals}` : vals;
+}
+/** "x = 3 - 2t, y = t (any t)", "none", or the unique values (intersection points for a line and curve). */
+export function solutionText(prob: ProblemShape){
+  const vars = prob.variables;
+  if(prob.curve){
+    const pts = intersections(prob.eqs[0], prob.curve) ?? [];
+    return pts.length===0 ? "no real solution" : pts.map(pointText).join(", ");
+  }
+  const a = analyzeSystem(prob.eqs, vars.length);
+  if(a.kind==="none") return "no solution";
+  if(a.kind==="unique") return vars.map((v,i)=>`${v} = ${ratToText(a.solution[i])}`).join(", ");
+  return `${vars.map((v,i)=>`${v} = ${termsText([{k:a.point[i], v:""}, ...a.dirs.map((d,j)=>({k:d[i], v:PARAMS[j]}))])}`).join(", ")} (any ${PARAMS.slice(0, a.dirs.length).join(", ")})`;
+}
+
+/** ===== Display scrambling ===== */
+function formatSide(ax:number, by:number, cz:number, k:number, includeZ?:boolean){
+  type Tok = { coef:number, t:"const"|"x"|"y"|"z" };
+  const toks: Tok[] = [];
+  if (k!==0) toks.push({coef:k,t:"const"});
+  if (ax!==0) toks.push({coef:ax,t:"x"});
+  if (by!==0) toks.push({coef:by,t:"y"});
+  if (includeZ && cz !== 0) toks.push({coef:cz,t:"z"});
+  if (toks.length===0) return "0";
+  let out="", first=true;
+  for(const tok of toks){
+    const sign = tok.coef<0?"-":"+"; const mag=Math.abs(tok.coef);
+    const core = tok.t==="const"?`${mag}`:`${mag===1?"":mag}${tok.t}`;
+    if(first){ out += (tok.coef<0?"- ":"") + core; first=false; } else { out += ` ${sign} ${core}`; }
+  }
+  return out;
+}
+function scrambleLinear(rng: Rng, e: EquationStd, includeZ?:boolean){
+  const a=e.a,b=e.b,c=e.c,d=e.d;
+  const axL=rnd(rng,-3,3), axR=axL-a; const byL=rnd(rng,-3,3), byR=byL-b; const czL=includeZ?rnd(rng,-3,3):0, czR=includeZ?czL-c:0; const kL=rnd(rng,-12,12), kR=kL+d;
+  const L=formatSide(axL,byL,czL,kL,includeZ); const R=formatSide(axR,byR,czR,kR,includeZ);
+  return `${L} = ${R}`;
+}
+
+/** ===== Generators ===== */
+function id(rng: Rng) { return `p_${Math.floor(rng()*36**7).toString(36).padStart(7,"0")}`; }
+
+function pickSolution2(rng: Rng, ansType: AnswerType){
+  const pickPQ = ()=> ansType==="integers"? rat(rnd(rng,-6,6)) : rat(rnd(rng,-12,12), choice(rng,[2,3,4,5,6,7,8]));
+  const x=pickPQ(), y=pickPQ(); return {x, y, qx:Number(x.d), qy:Number(y.d)};
+}
+function pickSolution3(rng: Rng, ansType: AnswerType){
+  const pickPQ = ()=> ansType==="integers"? rat(rnd(rng,-4,4)) : rat(rnd(rng,-10,10), choice(rng,[2,3,4,5,6,7,8]));
+  const x=pickPQ(), y=pickPQ(), z=pickPQ(); return {x, y, z, qx:Number(x.d), qy:Number(y.d), qz:Number(z.d)};
+}
+/** Right-hand side for integer coefficients; exact because every coefficient is a multiple of the solution denominators. */
+function rhsFor(coefs: number[], sol: Rational[]){
+  return ratToInt(coefs.reduce((acc, k, i)=> ratAdd(acc, ratMul(rat(k), sol[i])), RZERO));
+}
+/** Largest coefficient multiplier per difficulty (parabola: leading coefficient, circle: centre offset); adaptive sessions pass their own. */
+const COEF_MAX: Record<Mode, Record<Difficulty, number>> = {
+  "2x2": { easy:3, medium:5, hard:7 }, "3x3": { easy:3, medium:4, hard:5 },
+  "lin-quad": { easy:1, medium:2, hard:3 }, "lin-circle": { easy:2, medium:5, hard:8 },
+};
+const coefBase = (max: number) => Array.from({length: max}, (_,i)=>i+1);
+function gen2x2(difficulty: Difficulty, ansType: AnswerType, rng: Rng = Math.random, maxCoef = COEF_MAX["2x2"][difficulty]): Problem{
+  const sol = pickSolution2(rng, ansType); const L = lcm2(sol.qx, sol.qy);
+  const base = coefBase(maxCoef);
+  const a = L*choice(rng,[-1,1])*choice(rng,base), b = L*choice(rng,[-1,1])*choice(rng,base);
+  const c = L*choice(rng,[-1,1])*choice(rng,base); let d = L*choice(rng,[-1,1])*choice(rng,base);
+  if (a*d - b*c === 0) d += L;
+  const e1: EquationStd = { a, b, c: 0, d: rhsFor([a,b], [sol.x,sol.y]) };
+  const e2: EquationStd = { a:c, b:d, c: 0, d: rhsFor([c,d], [sol.x,sol.y]) };
+  const display = [scrambleLinear(rng,e1,false), scrambleLinear(rng,e2,false)];
+  return { id:id(rng), mode:"2x2", variables:["x","y"], eqs:[e1,e2], display, solution:[sol.x, sol.y], difficulty, ansType };
+}
+function gen3x3(difficulty: Difficulty, ansType: AnswerType, rng: Rng = Math.random, maxCoef = COEF_MAX["3x3"][difficulty]): Problem{
+  const sol = pickSolution3(rng, ansType); const L = lcm3(sol.qx, sol.qy, sol.qz);
+  const base = coefBase(maxCoef);
+  const row = ()=> [L*choice(rng,[-1,1])*choice(rng,base), L*choice(rng,[-1,1])*choice(rng,base), L*choice(rng,[-1,1])*choice(rng,base)];
+  const det = (M:number[][])=> M[0][0]*(M[1][1]*M[2][2]-M[1][2]*M[2][1]) - M[0][1]*(M[1][0]*M[2][2]-M[1][2]*M[2][0]) + M[0][2]*(M[1][0]*M[2][1]-M[1][1]*M[2][0]);
+  let A = [row(), row(), row()];
+  while(det(A)===0) A = [row(), row(), row()]; // nudging one entry cannot fix a zero cofactor, so redraw
+  const s = [sol.x, sol.y, sol.z];
+  const rhs = A.map(r=>rhsFor(r, s));
+  const e1: EquationStd = { a:A[0][0], b:A[0][1], c:A[0][2], d:rhs[0] };
+  const e2: EquationStd = { a:A[1][0], b:A[1][1], c:A[1][2], d:rhs[1] };
+  const e3: EquationStd = { a:A[2][0], b:A[2][1], c:A[2][2], d:rhs[2] };
+  const display = [scrambleLinear(rng,e1,true), scrambleLinear(rng,e2,true), scrambleLinear(rng,e3,true)];
+  return { id:id(rng), mode:"3x3", variables:["x","y","z"], eqs:[e1,e2,e3], display, solution:s, difficulty, ansType };
+}
+/** Second equation a multiple of the first: coincident lines, or parallel ones when the constant is shifted. */
+function genSingular2(kind: Exclude<SystemKind,"unique">, difficulty: Difficulty, ansType: AnswerType, rng: Rng, maxCoef = COEF_MAX["2x2"][difficulty]): Problem{
+  const sol = pickSolution2(rng, ansType); const L = lcm2(sol.qx, sol.qy);
+  const base = coefBase(maxCoef);
+  const a0 = choice(rng,[-1,1])*choice(rng,base), b0 = choice(rng,[-1,1])*choice(rng,base), g = igcd(a0, b0);
+  const m1 = choice(rng,[1,2]), m2 = choice(rng,[-3,-2,-1,2,3]);
+  const row = (m: number)=> [L*m*a0/g, L*m*b0/g];
+  const [r1, r2] = [row(m1), row(m2)];
+  const shift = kind==="none" ? choice(rng,[-1,1])*rnd(rng,1,9) : 0;
+  const e1: EquationStd = { a:r1[0], b:r1[1], c:0, d: rhsFor(r1, [sol.x,sol.y]) };
+  const e2: EquationStd = { a:r2[0], b:r2[1], c:0, d: rhsFor(r2, [sol.x,sol.y]) + shift };
+  const display = [scrambleLinear(rng,e1,false), scrambleLinear(rng,e2,false)];
+  return { id:id(rng), mode:"2x2", variables:["x","y"], eqs:[e1,e2], display, solution:[], difficulty, ansType, kind };
+}
+/** Third row a combination of two independent ones (rank 2), placed anywhere; a shifted constant makes it inconsistent. */
+function genSingular3(kind: Exclude<SystemKind,"unique">, difficulty: Difficulty, ansType: AnswerType, rng: Rng, maxCoef = COEF_MAX["3x3"][difficulty]): Problem{
+  const sol = pickSolution3(rng, ansType); const L = lcm3(sol.qx, sol.qy, sol.qz);
+  const base = coefBase(maxCoef);
+  const row = ()=> [L*choice(rng,[-1,1])*choice(rng,base), L*choice(rng,[-1,1])*choice(rng,base), L*choice(rng,[-1,1])*choice(rng,base)];
+  const parallel = (u: number[], v: number[])=> u[0]*v[1]===u[1]*v[0] && u[1]*v[2]===u[2]*v[1] && u[0]*v[2]===u[2]*v[0];
+  const r1 = row(); let r2 = row();
+  while(parallel(r1, r2)) r2 = row();
+  const al = choice(rng,[-2,-1,1,2]), be = choice(rng,[-2,-1,1,2]);
+  const r3 = r1.map((v,i)=>al*v + be*r2[i]);
+  const s = [sol.x, sol.y, sol.z];
+  const d1 = rhsFor(r1, s), d2 = rhsFor(r2, s);
+  const shift = kind==="none" ? choice(rng,[-1,1])*rnd(rng,1,9) : 0;
+  const eqs: EquationStd[] = [[...r1, d1], [...r2, d2], [...r3, al*d1 + be*d2 + shift]].map(([a,b,c,d])=>({ a, b, c, d }));
+  const at = rnd(rng,0,2); eqs.push(...eqs.splice(0, at));
+  const display = eqs.map(e=>scrambleLinear(rng,e,true));
+  return { id:id(rng), mode:"3x3", variables:["x","y","z"], eqs, display, solution:[], difficulty, ansType, kind };
+}
+const KIND_SHARE: [SystemKind, number][] = [["unique", 0.4], ["none", 0.3], ["infinite", 0.3]];
+/** With `classify`, a share of problems are deliberately singular and every problem carries its kind. */
+export function genProblem(mode: Mode, difficulty: Difficulty, ansType: AnswerType, rng: Rng = Math.random, maxCoef?: number, classify = false): Problem{
+  if(mode==="lin-quad") return genLinQuad(difficulty, ansType, rng, maxCoef);
+  if(mode==="lin-circle") return genLinCircle(difficulty, ansType, rng, maxCoef);
+  if(classify){
+    let u = rng(); const kind = KIND_SHARE.find(([,w])=>(u -= w) < 0)?.[0] ?? "unique";
+    if(kind!=="unique") return mode==="2x2"? genSingular2(kind, difficulty, ansType, rng, maxCoef) : genSingular3(kind, difficulty, ansType, rng, maxCoef);
+    return { ...genProblem(mode, difficulty, ansType, rng, maxCoef), kind };
+  }
+  return mode==="2x2"? gen2x2(difficulty, ansType, rng, maxCoef) : gen3x3(difficulty, ansType, rng, maxCoef);
+}
+
+/** ===== Nonlinear systems (line + parabola, line + circle) ===== */
+export const PAIR_KEYS = [["x1","y1"], ["x2","y2"]] as const;   // answer fields: at most two intersections
+const pointText = (pt: Rational[]) => `(${pt.map(ratToText).join(", ")})`;
+
+function curveText(c: Curve, expanded = false){
+  if(c.type==="parabola") return `y = ${termsText([{k:rat(c.a), v:"x²"}, {k:rat(c.b), v:"x"}, {k:rat(c.c), v:""}])}`;
+  if(expanded) return `${termsText([{k:rat(1), v:"x²"}, {k:rat(1), v:"y²"}, {k:rat(-2*c.h), v:"x"}, {k:rat(-2*c.k), v:"y"}, {k:rat(c.h**2 + c.k**2 - c.r2), v:""}])} = 0`;
+  const sq = (v: string, m: number)=> m===0 ? `${v}²` : `(${termsText([{k:rat(1), v}, {k:rat(-m), v:""}])})²`;
+  return `${sq("x", c.h)} + ${sq("y", c.k)} = ${c.r2}`;
+}
+function curveResidual(c: Curve, [x, y]: Rational[]){
+  if(c.type==="parabola") return ratSub(ratAdd(ratAdd(ratMul(rat(c.a), ratMul(x,x)), ratMul(rat(c.b), x)), rat(c.c)), y);
+  const dx = ratSub(x, rat(c.h)), dy = ratSub(y, rat(c.k));
+  return ratSub(ratAdd(ratMul(dx,dx), ratMul(dy,dy)), rat(c.r2));
+}
+/**
+ * Rearranges the line to u = α + β·w and substitutes it into the curve, leaving A·w² + B·w + C = 0.
+ * y is isolated unless the line is vertical, or (for a circle) only x has a unit coefficient.
+ */
+function lineIntoCurve(line: EquationStd, curve: Curve){
+  // the curve as P·x² + Q·y² + R·x + S·y + T = 0
+  const [P, Q, R, S, T] = curve.type==="parabola" ? [curve.a, 0, curve.b, -1, curve.c] : [1, 1, -2*curve.h, -2*curve.k, curve.h**2 + curve.k**2 - curve.r2];
+  const isoY = line.b!==0 && !(curve.type==="circle" && Math.abs(line.a)===1 && Math.abs(line.b)!==1);
+  const [ci, cw, Pw, Pu, Rw, Ru] = isoY ? [line.b, line.a, P, Q, R, S] : [line.a, line.b, Q, P, S, R];
+  const alpha = rat(line.d, ci), beta = rat(-cw, ci);
+  return {
+    u: isoY ? "y" : "x", w: isoY ? "x" : "y", alpha, beta,
+    A: ratAdd(rat(Pw), ratMul(rat(Pu), ratMul(beta, beta))),
+    B: ratAdd(ratAdd(ratMul(rat(2*Pu), ratMul(alpha, beta)), rat(Rw)), ratMul(rat(Ru), beta)),
+    C: ratAdd(ratAdd(ratMul(rat(Pu), ratMul(alpha, alpha)), ratMul(rat(Ru), alpha)), rat(T)),
+  };
+}
+/** Roots of A·w² + B·w + C = 0 in increasing order; null when they are irrational. */
+function quadRoots(A: Rational, B: Rational, C: Rational): Rational[] | null {
+  if(ratIsZero(A)) return ratIsZero(B) ? [] : [ratNeg(ratDiv(C, B))];
+  const disc = ratSub(ratMul(B,B), ratMul(rat(4), ratMul(A,C)));
+  if(disc.n<0n) return [];
+  const r = ratSqrt(disc); if(!r) return null;
+  const two = ratMul(rat(2), A);
+  const roots = ratIsZero(r) ? [ratDiv(ratNeg(B), two)] : [ratDiv(ratSub(ratNeg(B), r), two), ratDiv(ratAdd(ratNeg(B), r), two)];
+  return roots.sort(ratCmp);
+}
+/** Intersection points as [x, y]; null when they are irrational (generated problems never are). */
+function intersections(line: EquationStd, curve: Curve): Rational[][] | null {
+  const L = lineIntoCurve(line, curve);
+  const ws = quadRoots(L.A, L.B, L.C);
+  return ws && ws.map(w=>{ const u = ratAdd(L.alpha, ratMul(L.beta, w)); return L.u==="y" ? [w, u] : [u, w]; });
+}
+
+/** Line meeting y = ax² + bx + c at x₁ and x₂ (a tangent when they coincide), or that tangent shifted off the curve. */
+function genLinQuad(difficulty: Difficulty, ansType: AnswerType, rng: Rng = Math.random, maxCoef = COEF_MAX["lin-quad"][difficulty]): Problem{
+  const meets = choice(rng, [2,2,2,1,0]);
+  const x1 = meets===2 && ansType==="fractions" ? rat(choice(rng,[-1,1])*choice(rng,[1,3,5,7]), choice(rng,[2,3])) : rat(rnd(rng,-5,5));
+  let x2 = x1;
+  while(meets===2 && ratEq(x1, x2)) x2 = rat(rnd(rng,-5,5));
+  // a is a multiple of x₁'s denominator, so a(x₁ + x₂) and a·x₁x₂ are whole
+  const den = Number(x1.d), a = choice(rng,[-1,1]) * den * choice(rng, coefBase(Math.max(1, Math.round(maxCoef/den))));
+  const b = rnd(rng, -2*maxCoef, 2*maxCoef), c = rnd(rng, -9, 9);
+  // ax² + bx + c − (mx + q) = a(x − x₁)(x − x₂)
+  const m = ratToInt(ratAdd(rat(b), ratMul(rat(a), ratAdd(x1, x2))));
+  const q = ratToInt(ratSub(rat(c), ratMul(rat(a), ratMul(x1, x2)))) - (meets===0 ? Math.sign(a)*rnd(rng,1,6) : 0);
+  const k = choice(rng, [1,1,2,-1]);
+  const line: EquationStd = { a:k*m, b:-k, c:0, d:-k*q };
+  const curve: Curve = { type:"parabola", a, b, c };
+  return { id:id(rng), mode:"lin-quad", variables:["x","y"], eqs:[line], display:[scrambleLinear(rng,line,false), curveText(curve)], solution:[], difficulty, ansType, curve };
+}
+const latticeOffsets = (r2: number) => {
+  const out: [number, number][] = [], r = Math.floor(Math.sqrt(r2));
+  for(let u=-r; u<=r; u++) for(let v=-r; v<=r; v++) if(u*u + v*v===r2) out.push([u, v]);
+  return out;
+};
+const CIRCLE_R2: Record<Difficulty, number[]> = { easy:[5,10,13,25], medium:[10,13,25,50], hard:[25,50,65,85] };
+/** Integer centre and a radius² with several lattice points: a chord through two of them, the tangent at one, or that tangent pushed outside. */
+function genLinCircle(difficulty: Difficulty, ansType: AnswerType, rng: Rng = Math.random, maxCoef = COEF_MAX["lin-circle"][difficulty]): Problem{
+  const r2 = choice(rng, CIRCLE_R2[difficulty]), h = rnd(rng,-maxCoef,maxCoef), k = rnd(rng,-maxCoef,maxCoef);
+  const pts = latticeOffsets(r2), meets = choice(rng, [2,2,2,1,0]);
+  const [u, v] = choice(rng, pts);
+  let A = u, B = v, D = u*h + v*k + (meets===1 ? r2 : choice(rng,[-1,1])*(r2 + rnd(rng,1,6)));
+  if(meets===2){
+    let [u2, v2] = choice(rng, pts);
+    while(u2===u && v2===v) [u2, v2] = choice(rng, pts);
+    A = v2 - v; B = u - u2; D = A*(h+u) + B*(k+v);
+  }
+  const g = igcd(igcd(A, B), D);
+  const line: EquationStd = { a:A/g, b:B/g, c:0, d:D/g };
+  const curve: Curve = { type:"circle", h, k, r2 };
+  return { id:id(rng), mode:"lin-circle", variables:["x","y"], eqs:[line], display:[scrambleLinear(rng,line,false), curveText(curve, rng()<0.5)], solution:[], difficulty, ansType, curve };
+}
+
+/** Substitution: rearrange the line, substitute, collect one quadratic, read the discriminant, back-substitute. */
+function nonlinearSteps(prob: Problem){
+  const line = prob.eqs[0], curve = prob.curve!, s: string[] = [];
+  const L = lineIntoCurve(line, curve);
+  const expr = termsText([{k:L.alpha, v:""}, {k:L.beta, v:L.w}]);
+  s.push(`Start: Eq(1) ${rowText([line.a, line.b, line.d], ["x","y"])},  Eq(2) ${curveText(curve)}`);
+  s.push(`Rearrange Eq(1) for ${L.u}: ${L.u} = ${expr}`);
+  const shifted = (v: string, m: number)=> v===L.u ? termsText([{k:ratSub(L.alpha, rat(m)), v:""}, {k:L.beta, v:L.w}]) : termsText([{k:rat(1), v}, {k:rat(-m), v:""}]);
+  s.push(`Substitute into Eq(2): ${curve.type==="circle"
+    ? `(${shifted("x", curve.h)})² + (${shifted("y", curve.k)})² = ${curve.r2}`
+    : L.u==="y" ? `${expr} = ${termsText([{k:rat(curve.a), v:"x²"}, {k:rat(curve.b), v:"x"}, {k:rat(curve.c), v:""}])}`
+    : `y = ${termsText([{k:rat(curve.a), v:`(${expr})²`}, {k:rat(curve.b), v:expr, group:true}, {k:rat(curve.c), v:""}])}`}`);
+  // clear denominators and common factors; leading coefficient positive
+  const dens = [L.A, L.B, L.C].reduce((acc, r)=> acc*r.d/bgcd(acc, r.d), 1n);
+  let q = [L.A, L.B, L.C].map(r=>r.n*(dens/r.d));
+  const g = q.reduce((acc, v)=>bgcd(acc, v), 0n) || 1n;
+  q = q.map(v=>v/g * ((q[0]<0n || (q[0]===0n && q[1]<0n)) ? -1n : 1n));
+  const [A, B, C] = q.map(v=>rat(v)), w = L.w;
+  s.push(`Collect terms: ${termsText([{k:A, v:`${w}²`}, {k:B, v:w}, {k:C, v:""}])} = 0`);
+  const roots = quadRoots(A, B, C) ?? [];
+  if(!ratIsZero(A)){
+    const disc = ratSub(ratMul(B,B), ratMul(rat(4), ratMul(A,C)));
+    s.push(`Discriminant: (${ratToText(B)})² - 4(${ratToText(A)})(${ratToText(C)}) = ${ratToText(disc)}`);
+    if(disc.n<0n){ s.push("The discriminant is negative, so the line misses the curve."); s.push("Solution: no real solutions."); return s; }
+    if(disc.n===0n) s.push(`The discriminant is 0, so the line is a tangent: ${w} = ${ratToText(ratNeg(B))}/${ratToText(ratMul(rat(2), A))} = ${ratToText(roots[0])}`);
+    else s.push(`${w} = (${ratToText(ratNeg(B))} ± √${ratToText(disc)}) / ${ratToText(ratMul(rat(2), A))} = (${ratToText(ratNeg(B))} ± ${ratToText(ratSqrt(disc) ?? RZERO)}) / ${ratToText(ratMul(rat(2), A))}, so ${roots.map(r=>`${w} = ${ratToText(r)}`).join(" or ")}`);
+  } else s.push(`${w} = ${ratToText(roots[0])}`);
+  const pts = roots.map(r=>{
+    const val = ratAdd(L.alpha, ratMul(L.beta, r));
+    s.push(`When ${w} = ${ratToText(r)}: ${L.u} = ${termsText([{k:L.alpha, v:""}, {k:L.beta, v:ratToText(r), group:true}])} = ${ratToText(val)}`);
+    return L.u==="y" ? [r, val] : [val, r];
+  });
+  s.push(`Solution${pts.length>1 ? "s" : ""}: (x, y) = ${pts.map(pointText).join(" and ")}`);
+  return s;
+}
+
+/** ===== Skill rating ===== */
+// Problems and the learner share one Elo-style scale. A problem's rating is estimated from its features;
+// the learner's rating moves after each first attempt by how the result beat or missed the expected score.
+// Like Glicko, a deviation shrinks with evidence and grows back with time away, and scales the step size.
+export type LearnerRating = { r: number; rd: number; updatedAt: number; history: { ts: number; r: number }[] };
+const RATING = { start: 1200, rdStart: 350, rdMin: 60, rdShrink: 0.94, rdGrowPerDay: 25, historyMax: 500 };
+const MODE_RATING: Record<Mode, number> = { "2x2": 0, "3x3": 300, "lin-quad": 250, "lin-circle": 350 };
+/** Stand-in ratings for attempts saved before problems were rated. */
+const DIFF_RATING: Record<Difficulty, number> = { easy: 1000, medium: 1200, hard: 1400 };
+const HINT_COST = { score: 0.25, time: 0.25 };   // per hint: share of the solve's points lost, share added to its adjusted time
+
+/** Estimated difficulty from coefficient size, fractional answers, the kind of system and how scrambled the display is. */
+export function problemRating(p: Problem){
+  const n = p.variables.length;
+  const coefs = p.eqs.flatMap(e=>[e.a, e.b, e.c].slice(0, n)).map(Math.abs);
+  const size = 140 * Math.log2(1 + coefs.reduce((s,k)=>s+k, 0)/coefs.length);
+  const answers = p.curve ? (intersections(p.eqs[0], p.curve) ?? []).flat() : p.solution;
+  const fractions = 40 * answers.filter(v=>v.d!==1n).length;
+  // terms beyond the standard form's, i.e. ones the learner has to move across "="
+  const extra = p.eqs.reduce((s,e,i)=>{
+    const sides = displaySides(p.display[i]); if(!sides) return s;
+    const shown = sides.flat().filter(k=>k!==0).length, needed = [e.a, e.b, e.c].slice(0, n).filter(k=>k!==0).length + (e.d!==0 ? 1 : 0);
+    return s + Math.max(0, shown - needed);
+  }, 0);
+  const singular = p.kind!==undefined && p.kind!=="unique" ? 150 : 0;
+  return Math.round(clamp(650 + MODE_RATING[p.mode] + size + fractions + 12*extra + singular, 400, 2600));
+}
+const attemptRating = (a: AttemptRecord) => a.rating ?? DIFF_RATING[a.difficulty];
+/** Weight of a problem for score and adjusted time: 1 at rating 1000, doubling every 600 points. */
+const ratingWeight = (rating: number) => 2 ** ((rating - 1000) / 600);
+export const attemptPoints = (a: AttemptRecord) => a.correct ? ratingWeight(attemptRating(a)) * Math.max(0, 1 - HINT_COST.score*(a.hints ?? 0)) : 0;
+export const adjustedSeconds = (a: AttemptRecord) => a.seconds * (1 + HINT_COST.time*(a.hints ?? 0)) / ratingWeight(attemptRating(a));
+
+export const freshRating = (now: number): LearnerRating => ({ r: RATING.start, rd: RATING.rdStart, updatedAt: now, history: [] });
+/** Result of an attempt in [0, 1]: full marks inside the mode's target time, down to half at three times it; hints cost as in the score. */
+function attemptResult(a: AttemptRecord){
+  if(!a.correct) return a.unsimplified ? 0.5 : 0;
+  const speed = clamp(1.25 - 0.25*a.seconds/ADAPT.targetSeconds[a.mode], 0.5, 1);
+  return speed * Math.max(0, 1 - HINT_COST.score*(a.hints ?? 0));
+}
+export function rateAttempt(l: LearnerRating, a: AttemptRecord, now: number): LearnerRating {
+  const idle = Math.max(0, now - l.updatedAt) / 86_400_000;
+  const rd = Math.min(RATING.rdStart, Math.sqrt(l.rd**2 + RATING.rdGrowPerDay**2 * idle));
+  const expected = 1 / (1 + 10 ** ((attemptRating(a) - l.r) / 400));
+  const r = Math.round(l.r + (16 + 64*rd/RATING.rdStart) * (attemptResult(a) - expected));
+  return { r, rd: Math.max(RATING.rdMin, rd*RATING.rdShrink), updatedAt: now, history: [...l.history, { ts: now, r }].slice(-RATING.historyMax) };
+}
+
+/** ===== Mixed sessions ===== */
+export const mixShare = (mix: MixComponent[], i: number) => mix[i].weight / mix.reduce((s,c)=>s+c.weight, 0);
+export const kindText = (c: Pick<MixComponent, "mode"|"difficulty"|"ansType">) => `${MODE_LABEL[c.mode]} ${c.difficulty} ${c.ansType}`;
+export const mixText = (mix: MixComponent[]) => mix.map((c,i)=>`${Math.round(100*mixShare(mix, i))}% ${kindText(c)}`).join(" + ");
+export const mixKey = (mix?: MixComponent[]) => mix ? mix.map(c=>`${c.mode}/${c.difficulty}/${c.ansType}/${c.weight}`).join(",") : "";
+/** The config line shown in session lists. */
+export const configText = (c: SessionConfig) => c.mix ? `mix: ${mixText(c.mix)}` : `${c.mode} • ${c.difficulty} • ${c.ansType}`;
+function pickComponent(mix: MixComponent[], rng: Rng){
+  let r = rng() * mix.reduce((s,c)=>s+c.weight, 0);
+  return mix.find(c=>(r -= c.weight) < 0) ?? mix[mix.length-1];
+}
+/** Attempts grouped by pool component, in pool order. */
+export function componentStats(mix: MixComponent[], attempts: AttemptRecord[]): ComponentStats[] {
+  return mix.filter((c,i)=>mix.findIndex(d=>kindText(d)===kindText(c))===i).map(c=>{
+    const mine = attempts.filter(a=>a.mode===c.mode && a.difficulty===c.difficulty && a.ansType===c.ansType);
+    return {
+      mode: c.mode, difficulty: c.difficulty, ansType: c.ansType, attempts: mine.length, correct: mine.filter(a=>a.correct).length,
+      avgTime: mine.length ? +(mine.reduce((s,a)=>s+a.seconds, 0)/mine.length).toFixed(2) : 0, score: +mine.reduce((s,a)=>s+attemptPoints(a), 0).toFixed(2),
+    };
+  });
+}
+
+/** ===== Duels ===== */
+// Two players on one device answer the same problems (one seeded draw), one answer per problem, right or wrong.
+export type DuelLayout = "side" | "turns";
+export const DUEL_LAYOUT_LABEL: Record<DuelLayout, string> = { side:"Side by side", turns:"Taking turns" };
+export type DuelResult = "won" | "lost" | "tied";
+export type DuelStanding = { correct: number; adjSeconds: number };   // adjSeconds: total adjusted time over the player's answers
+export type DuelSummary = { opponent: string; layout: DuelLayout; result: DuelResult; adjSeconds: number; opponentCorrect: number; opponentAdjSeconds: number };
+export const duelStanding = (attempts: AttemptRecord[]): DuelStanding => ({ correct: attempts.filter(a=>a.correct).length, adjSeconds: +attempts.reduce((s,a)=>s + adjustedSeconds(a), 0).toFixed(2) });
+/** More correct answers wins; equal counts go to the lower adjusted time, and equal times are a tie. */
+export function duelResult(mine: DuelStanding, theirs: DuelStanding): DuelResult {
+  if(mine.correct!==theirs.correct) return mine.correct>theirs.correct ? "won" : "lost";
+  return mine.adjSeconds===theirs.adjSeconds ? "tied" : mine.adjSeconds<theirs.adjSeconds ? "won" : "lost";
+}
+
+/** ===== Adaptive difficulty ===== */
+// A single level in [0, 10] drives coefficient size, the fraction share and the 3×3 share.
+// Wrong answers step down 3× harder than fast correct ones step up, so the level settles where
+// accuracy is about 75%; correct-but-slow answers only creep up.
+export const ADAPT = { targetAccuracy: 0.75, targetSeconds: { "2x2": 45, "3x3": 120, "lin-quad": 90, "lin-circle": 120 } as Record<Mode, number>, step: 0.5, min: 0, max: 10 };
+export const ADAPT_START: Record<Difficulty, number> = { easy: 2, medium: 5, hard: 8 };
+const levelDifficulty = (level: number): Difficulty => level < 10/3 ? "easy" : level < 20/3 ? "medium" : "hard";
+function genAdaptive(level: number, rng: Rng = Math.random, classify = false): Problem {
+  const mode: Mode = rng() < clamp((level-5)/5, 0, 0.6) ? "3x3" : "2x2";
+  const ansType: AnswerType = rng() < clamp((level-2)/6, 0, 1) ? "fractions" : "integers";
+  const maxCoef = mode==="2x2" ? 2 + Math.round(level/2) : 2 + Math.round(level*0.3);
+  return genProblem(mode, levelDifficulty(level), ansType, rng, maxCoef, classify);
+}
+/** Problem `index` of a seeded session, at `level` when the session is adaptive. */
+export function serveProblem(cfg: SessionConfig, seed: number, index: number, level: number){
+  const rng = problemRng(seed, index);
+  if(cfg.adaptive) return genAdaptive(level, rng, cfg.classify);
+  const c = cfg.mix ? pickComponent(cfg.mix, rng) : cfg;
+  return genProblem(c.mode, c.difficulty, c.ansType, rng, undefined, cfg.classify);
+}
+/** Next problem for a session: a due review on the mixing schedule (or always, in review-only sessions), else a fresh one. */
+export function pickNextProblem(cfg: SessionConfig, index: number, level: number, queue: ReviewItem[], currentReview: string | null){
+  const seed = cfg.seed ?? 0, rng = problemRng(seed, index);
+  const due = cfg.review==="off" ? [] : dueReviews(queue, Date.now()).filter(it=>it.id!==currentReview);
+  const wantReview = cfg.review==="only" || (cfg.review==="mix" && index>0 && index % REVIEW_MIX_EVERY===0);
+  if(wantReview && due.length>0) return { problem: reviewProblem(due[0], cfg.reviewAs ?? "fresh", rng), reviewId: due[0].id };
+  if(cfg.review==="only") return null;
+  return { problem: serveProblem(cfg, seed, index, level), reviewId: null };
+}
+export function adaptLevel(level: number, correct: boolean, seconds: number, mode: Mode){
+  const up = seconds <= ADAPT.targetSeconds[mode] ? ADAPT.step : 0.4*ADAPT.step;
+  const delta = correct ? up : -ADAPT.step * ADAPT.targetAccuracy / (1 - ADAPT.targetAccuracy);
+  return +clamp(level + delta, ADAPT.min, ADAPT.max).toFixed(2);
+}
+
+/** ===== Worked steps (numeric elimination) ===== */
+type StepRow = { label: string; r: number[] };   // r = [...coefficients, rhs]
+export type RouteOp = "rearrange" | "scale" | "combine" | "substitute";   // scratchpad operations, for counting a route
+
+/** Joins signed terms exam-style; v === "" marks a constant, group wraps v in brackets. */
+function termsText(toks: { k: Rational; v: string; group?: boolean }[]){
+  const nz = toks.filter(t=>!ratIsZero(t.k)); if(nz.length===0) return "0";
+  return nz.map((t,i)=>{
+    const neg = t.k.n<0n, mag = ratAbs(t.k), m = ratToText(mag);
+    const core = t.v===""? m : `${m==="1"?"":mag.d===1n?m:`(${m})`}${t.group?`(${t.v})`:t.v}`;
+    return i===0? (neg?"- ":"")+core : ` ${neg?"-":"+"} ${core}`;
+  }).join("");
+}
+function rowText(r: number[], vars: string[]){
+  return `${termsText(r.slice(0,-1).map((k,i)=>({k:rat(k), v:vars[i]})))} = ${r[r.length-1]}`;
+}
+function solutionLine(vars: string[], vals: Rational[]){ return `Solution: ${vars.map((v,i)=>`${v} = ${ratToText(vals[i])}`).join(", ")}`; }
+
+/** Cancels column k between `pivot` and `row` with integer multipliers, then divides out any common factor. */
+function eliminateWith(pivot: StepRow, row: StepRow, k: number, label: string, vars: string[], shown: Set<string>, s: string[], route: RouteOp[] = []): StepRow {
+  const scale = (line: string)=>{ if(!shown.has(line)){ shown.add(line); s.push(line); route.push("scale"); } };
+  const L = lcm2(Math.abs(pivot.r[k]), Math.abs(row.r[k]));
+  const kp = L/Math.abs(pivot.r[k]), kq = L/Math.abs(row.r[k]);
+  const op = Math.sign(pivot.r[k])===Math.sign(row.r[k])? "-" : "+";
+  const tag = (sr: StepRow, m: number)=> m===1? sr.label : `${sr.label}×${m}`;
+  if(kp!==1) scale(`Scale ${tag(pivot,kp)} → ${rowText(pivot.r.map(v=>v*kp), vars)}`);
+  if(kq!==1) scale(`Scale ${tag(row,kq)} → ${rowText(row.r.map(v=>v*kq), vars)}`);
+  let r = pivot.r.map((v,i)=> op==="-"? v*kp - row.r[i]*kq : v*kp + row.r[i]*kq);
+  s.push(`Eliminate ${vars[k]}: ${tag(pivot,kp)} ${op} ${tag(row,kq)} → ${label}: ${rowText(r, vars)}`); route.push("combine");
+  const g = r.reduce((acc,v)=>igcd(acc,v), 0);
+  if(g>1){ r = r.map(v=>v/g); s.push(`${label} ÷ ${g} → ${rowText(r, vars)}`); route.push("scale"); }
+  return { label, r };
+}
+
+/**
+ * Elimination with integer multipliers, eliminating the variables in `order` one at a time,
+ * then back-substituting through the pivot rows. Every line shows the actual coefficients;
+ * `route` collects the same work as scratchpad operations.
+ */
+function eliminationSteps(prob: Problem, order: number[], route: RouteOp[] = []){
+  const vars = prob.variables, n = vars.length;
+  const s: string[] = [];
+  let rows: StepRow[] = prob.eqs.map((e,i)=>({ label:`Eq(${i+1})`, r: n===2? [e.a,e.b,e.d] : [e.a,e.b,e.c,e.d] }));
+  let next = rows.length+1;
+  const pivots: { row: StepRow; k: number }[] = [];
+  s.push(`Start: ${rows.map(row=>`${row.label} ${rowText(row.r, vars)}`).join(",  ")}`);
+
+  for(const k of order){
+    const live = rows.filter(row=>row.r[k]!==0);
+    if(live.length===0) return s;
+    const pivot = live.reduce((best,row)=> Math.abs(row.r[k])<Math.abs(best.r[k])? row : best);
+    pivots.push({ row:pivot, k });
+    const out: StepRow[] = [], shown = new Set<string>();
+    for(const row of rows){
+      if(row===pivot) continue;
+      if(row.r[k]===0){ s.push(`${row.label} has no ${vars[k]} term, keep it.`); out.push(row); continue; }
+      out.push(eliminateWith(pivot, row, k, `Eq(${next++})`, vars, shown, s, route));
+    }
+    rows = out;
+  }
+
+  const known = new Map<number, Rational>();
+  const last = rows[0], rem = vars.findIndex((_,i)=>!order.includes(i));
+  if(!last || last.r[rem]===0) return s;
+  known.set(rem, rat(last.r[n], last.r[rem]));
+  s.push(`From ${last.label}: ${vars[rem]} = ${ratToText(known.get(rem)!)}`);
+  if(last.r[rem]!==1) route.push("scale");
+
+  for(const { row, k } of pivots.slice().reverse()){
+    const rhs = rat(row.r[n]), ck = rat(row.r[k]);
+    const others = row.r.slice(0,-1).map((c,i)=>({c,i})).filter(t=>t.i!==k && t.c!==0);
+    const S = others.reduce((acc,t)=>ratAdd(acc, ratMul(rat(t.c), known.get(t.i)!)), RZERO);
+    if(others.length>0){
+      const subs = others.map(t=>`${vars[t.i]} = ${ratToText(known.get(t.i)!)}`).join(", ");
+      const plugged = termsText([{k:ck, v:vars[k]}, ...others.map(t=>({k:rat(t.c), v:ratToText(known.get(t.i)!), group:true}))]);
+      s.push(`Substitute ${subs} into ${row.label}: ${plugged} = ${row.r[n]}`); route.push("substitute");
+      if(!ratIsZero(S)) s.push(`${termsText([{k:ck, v:vars[k]}, {k:S, v:""}])} = ${row.r[n]}`);
+    }
+    const moved = ratSub(rhs, S), val = ratDiv(moved, ck);
+    if(others.length>0 && !ratEq(ck, rat(1))) s.push(`${termsText([{k:ck, v:vars[k]}])} = ${ratToText(moved)}`);
+    s.push(`${vars[k]} = ${ratToText(val)}`);
+    if(!ratEq(ck, rat(1))) route.push("scale");
+    known.set(k, val);
+  }
+  s.push(solutionLine(vars, vars.map((_,i)=>known.get(i)!)));
+  return s;
+}
+/** 2×2: eliminate whichever variable needs the smaller common multiple. */
+function worked2x2(prob: Problem, route?: RouteOp[]){
+  const [e1,e2] = prob.eqs;
+  const lcmX = (e1.a===0||e2.a===0)?Infinity:lcm2(Math.abs(e1.a),Math.abs(e2.a));
+  const lcmY = (e1.b===0||e2.b===0)?Infinity:lcm2(Math.abs(e1.b),Math.abs(e2.b));
+  return eliminationSteps(prob, [lcmX<=lcmY? 0 : 1], route);
+}
+/** 3×3: eliminate x from two rows, then y, then back-substitute z → y → x. */
+function worked3x3(prob: Problem, route?: RouteOp[]){ return eliminationSteps(prob, [0, 1], route); }
+
+/**
+ * Row reduction that also copes with singular systems: once every column is eliminated, a row
+ * reading 0 = c (c ≠ 0) means no solution, and columns without a pivot become free parameters.
+ */
+function classifySteps(prob: Problem){
+  const vars = prob.variables, n = vars.length;
+  const s: string[] = [];
+  let rows: StepRow[] = prob.eqs.map((e,i)=>({ label:`Eq(${i+1})`, r: n===2? [e.a,e.b,e.d] : [e.a,e.b,e.c,e.d] }));
+  let next = rows.length+1;
+  const pivots: { row: StepRow; k: number }[] = [];
+  s.push(`Start: ${rows.map(row=>`${row.label} ${rowText(row.r, vars)}`).join(",  ")}`);
+
+  for(let k=0; k<n; k++){
+    const live = rows.filter(row=>row.r[k]!==0);
+    if(live.length===0) continue;
+    const pivot = live.reduce((best,row)=> Math.abs(row.r[k])<Math.abs(best.r[k])? row : best);
+    pivots.push({ row:pivot, k });
+    const out: StepRow[] = [], shown = new Set<string>();
+    for(const row of rows){
+      if(row===pivot) continue;
+      if(row.r[k]===0){ s.push(`${row.label} has no ${vars[k]} term, keep it.`); out.push(row); continue; }
+      out.push(eliminateWith(pivot, row, k, `Eq(${next++})`, vars, shown, s));
+    }
+    rows = out;
+  }
+
+  // every row left over has lost all its variables
+  const bad = rows.find(row=>row.r[n]!==0);
+  if(bad){
+    s.push(`${bad.label} reads 0 = ${bad.r[n]}, which is impossible.`);
+    s.push("Solution: none — the equations contradict each other.");
+    return s;
+  }
+  for(const row of rows) s.push(`${row.label} reads 0 = 0, so it adds nothing new.`);
+
+  const free = vars.map((_,i)=>i).filter(i=>!pivots.some(pv=>pv.k===i));
+  const linText = (L: Rational[])=> termsText([{k:L[0], v:""}, ...L.slice(1).map((k,j)=>({k, v:PARAMS[j]}))]);
+  const known = new Map<number, Rational[]>();   // [constant, coefficient of each parameter]
+  free.forEach((f,j)=>{
+    known.set(f, [RZERO, ...free.map((_,i)=> i===j? rat(1) : RZERO)]);
+    s.push(`${vars[f]} has no pivot, so it is free: let ${vars[f]} = ${PARAMS[j]}.`);
+  });
+  for(const { row, k } of pivots.slice().reverse()){
+    let L = [rat(row.r[n]), ...free.map(()=>RZERO)];
+    row.r.slice(0,n).forEach((c,i)=>{ if(i!==k && c!==0) L = L.map((v,j)=>ratSub(v, ratMul(rat(c), known.get(i)![j]))); });
+    L = L.map(v=>ratDiv(v, rat(row.r[k])));
+    known.set(k, L);
+    s.push(`From ${row.label}: ${vars[k]} = ${linText(L)}`);
+  }
+  const vals = vars.map((_,i)=>known.get(i)!);
+  s.push(free.length===0
+    ? solutionLine(vars, vals.map(L=>L[0]))
+    : `Solution: ${vars.map((v,i)=>`${v} = ${linText(vals[i])}`).join(", ")} for any ${PARAMS.slice(0, free.length).join(", ")} — infinitely many.`);
+  return s;
+}
+
+/** ===== Other solution methods ===== */
+export const METHOD_LABEL: Record<SolveMethod, string> = { elimination:"Elimination", substitution:"Substitution", cramer:"Cramer's rule", inverse:"Matrix inverse", "gauss-jordan":"Row reduction (matrix)" };
+
+/** Isolate one variable at a time (±1 coefficients first), substitute it into the rest, then back-substitute. */
+function substitutionSteps(prob: Problem){
+  type LinEq = { label: string; k: Rational[]; rhs: Rational };
+  const vars = prob.variables, n = vars.length;
+  const s: string[] = [];
+  const eqText = (e: LinEq)=> `${termsText(e.k.map((k,i)=>({k, v:vars[i]})))} = ${ratToText(e.rhs)}`;
+  const exprText = (c: Rational, k: Rational[])=> termsText([{k:c, v:""}, ...k.map((kj,j)=>({k:kj, v:vars[j]}))]);
+  let eqs: LinEq[] = prob.eqs.map((e,i)=>({ label:`Eq(${i+1})`, k:[e.a,e.b,e.c].slice(0,n).map(v=>rat(v)), rhs:rat(e.d) }));
+  let next = eqs.length+1;
+  const isolated: { v: number; c: Rational; k: Rational[] }[] = [];   // vars[v] = c + Σ k[j]·vars[j]
+  s.push(`Start: ${eqs.map(e=>`${e.label} ${eqText(e)}`).join(",  ")}`);
+
+  while(eqs.length>1){
+    let best: { e: LinEq; v: number } | null = null;
+    const score = (k: Rational)=> ratEq(ratAbs(k), rat(1))? RZERO : ratAbs(k);
+    for(const e of eqs) for(let v=0; v<n; v++){
+      if(!ratIsZero(e.k[v]) && (!best || ratCmp(score(e.k[v]), score(best.e.k[best.v]))<0)) best = { e, v };
+    }
+    if(!best) return s;
+    const { e, v } = best;
+    const c = ratDiv(e.rhs, e.k[v]);
+    const k = e.k.map((kj,j)=> j===v? RZERO : ratNeg(ratDiv(kj, e.k[v])));
+    const expr = exprText(c, k);
+    isolated.push({ v, c, k });
+    s.push(`Rearrange ${e.label} for ${vars[v]}: ${vars[v]} = ${expr}`);
+    const out: LinEq[] = [];
+    for(const o of eqs){
+      if(o===e) continue;
+      if(ratIsZero(o.k[v])){ s.push(`${o.label} has no ${vars[v]} term, keep it.`); out.push(o); continue; }
+      const plugged = termsText(o.k.map((kj,j)=> j===v? {k:kj, v:expr, group:true} : {k:kj, v:vars[j]}));
+      const ne: LinEq = { label:`Eq(${next++})`, k:o.k.map((kj,j)=> j===v? RZERO : ratAdd(kj, ratMul(o.k[v], k[j]))), rhs:ratSub(o.rhs, ratMul(o.k[v], c)) };
+      s.push(`Substitute into ${o.label}: ${plugged} = ${ratToText(o.rhs)}`);
+      s.push(`Simplify → ${ne.label}: ${eqText(ne)}`);
+      out.push(ne);
+    }
+    eqs = out;
+  }
+
+  const last = eqs[0], rem = last? last.k.findIndex(k=>!ratIsZero(k)) : -1;
+  if(rem<0) return s;
+  const known = new Map<number, Rational>([[rem, ratDiv(last.rhs, last.k[rem])]]);
+  s.push(`From ${last.label}: ${vars[rem]} = ${ratToText(known.get(rem)!)}`);
+  for(const { v, c, k } of isolated.slice().reverse()){
+    const val = k.reduce((acc,kj,j)=> ratIsZero(kj)? acc : ratAdd(acc, ratMul(kj, known.get(j)!)), c);
+    if(k.every(ratIsZero)) s.push(`${vars[v]} = ${ratToText(val)}`);
+    else {
+      const plugged = termsText([{k:c, v:""}, ...k.map((kj,j)=>({k:kj, v:ratIsZero(kj)? "" : ratToText(known.get(j)!), group:true}))]);
+      s.push(`Back-substitute: ${vars[v]} = ${exprText(c, k)} = ${plugged} = ${ratToText(val)}`);
+    }
+    known.set(v, val);
+  }
+  s.push(solutionLine(vars, vars.map((_,i)=>known.get(i)!)));
+  return s;
+}
+
+/** ===== Determinant helpers for Cramer / inverse ===== */
+const det2 = (M: number[][]) => M[0][0]*M[1][1] - M[0][1]*M[1][0];
+const minor = (M: number[][], i: number, j: number) => M.filter((_,r)=>r!==i).map(row=>row.filter((_,c)=>c!==j));
+const detN = (M: number[][]) => M.length===2? det2(M) : M[0].reduce((acc,a,j)=> acc + (j%2===0?1:-1)*a*det2(minor(M,0,j)), 0);
+const matText = (M: number[][]) => `[${M.map(r=>r.join(" ")).join("; ")}]`;
+/** The arithmetic behind a 2×2 or first-row cofactor expansion of a 3×3 determinant. */
+function detWorking(M: number[][]){
+  const d2 = (m: number[][]) => `(${m[0][0]})(${m[1][1]}) - (${m[0][1]})(${m[1][0]})`;
+  if(M.length===2) return d2(M);
+  return M[0].map((a,j)=>`${j===0?"":j%2===0?" + ":" - "}(${a})[${d2(minor(M,0,j))}]`).join("");
+}
+
+function cramerSteps(prob: Problem){
+  const vars = prob.variables, n = vars.length;
+  const A = prob.eqs.map(e=>[e.a,e.b,e.c].slice(0,n)), B = prob.eqs.map(e=>e.d);
+  const s: string[] = [];
+  const D = detN(A);
+  s.push(`Coefficient matrix A = ${matText(A)}, constants B = [${B.join("; ")}]`);
+  s.push(`D = |A| = ${detWorking(A)} = ${D}`);
+  if(D===0){ s.push("D = 0, so Cramer's rule does not apply."); return s; }
+  const Ds = vars.map((v,j)=>{
+    const Mj = A.map((row,i)=>row.map((a,c)=> c===j? B[i] : a));
+    const Dj = detN(Mj);
+    s.push(`D${v}: replace column ${j+1} with B → ${matText(Mj)}, D${v} = ${detWorking(Mj)} = ${Dj}`);
+    return Dj;
+  });
+  const vals = Ds.map(Dj=>rat(Dj, D));
+  vars.forEach((v,j)=> s.push(`${v} = D${v} / D = ${Ds[j]} / ${D} = ${ratToText(vals[j])}`));
+  s.push(solutionLine(vars, vals));
+  return s;
+}
+
+function inverseSteps(prob: Problem){
+  const vars = prob.variables, n = vars.length;
+  const A = prob.eqs.map(e=>[e.a,e.b,e.c].slice(0,n)), B = prob.eqs.map(e=>e.d);
+  const s: string[] = [];
+  s.push(`Write as AX = B with A = ${matText(A)}, X = [${vars.join("; ")}], B = [${B.join("; ")}]`);
+  const D = detN(A);
+  s.push(`det A = ${detWorking(A)} = ${D}`);
+  if(D===0){ s.push("det A = 0, so A has no inverse."); return s; }
+  let adj: number[][];
+  if(n===2){
+    adj = [[A[1][1], -A[0][1]], [-A[1][0], A[0][0]]];
+    s.push(`adj A: swap the diagonal, negate the off-diagonal → ${matText(adj)}`);
+  } else {
+    const C = A.map((row,i)=>row.map((_,j)=> ((i+j)%2===0?1:-1)*det2(minor(A,i,j))));
+    adj = C[0].map((_,j)=>C.map(row=>row[j]));
+    s.push(`Cofactors C = ${matText(C)}`);
+    s.push(`adj A = Cᵀ = ${matText(adj)}`);
+  }
+  s.push(`A⁻¹ = (1/${D}) · ${matText(adj)}`);
+  const AB = adj.map(row=>row.reduce((acc,a,i)=>acc + a*B[i], 0));
+  s.push(`X = A⁻¹B = (1/${D}) · [${adj.map(row=>row.map((a,i)=>`(${a})(${B[i]})`).join(" + ")).join("; ")}] = (1/${D}) · [${AB.join("; ")}]`);
+  const vals = AB.map(v=>rat(v, D));
+  s.push(vars.map((v,i)=>`${v} = ${AB[i]}/${D} = ${ratToText(vals[i])}`).join(", "));
+  s.push(solutionLine(vars, vals));
+  return s;
+}
+
+/** ===== Matrix form ([A | b], AX = B, RREF) ===== */
+export const PRESENT_LABEL: Record<Presentation, string> = { equations:"Equations", augmented:"Augmented matrix [A | b]", matrix:"Matrix equation AX = B" };
+/** [A | b] in whole numbers, one row per equation. */
+export const augmentedRows = (p: ProblemShape) => p.eqs.map(e=>[e.a,e.b,e.c].slice(0, p.variables.length).concat(e.d));
+const augText = (M: Rational[][], n: number) => `[${M.map(row=>`${row.slice(0,n).map(ratToText).join(" ")} | ${ratToText(row[n])}`).join("; ")}]`;
+/** Answer field for row i, column j of a typed RREF matrix (both from 0). */
+export const rrefKey = (i: number, j: number) => `r${i+1}c${j+1}`;
+
+/** Gauss–Jordan on the augmented matrix, one row operation per line, then the solution read off the RREF. */
+function rowReductionSteps(prob: Problem){
+  const vars = prob.variables, n = vars.length;
+  const start = augmented(prob.eqs, n), s: string[] = [];
+  s.push(`Write the system as [A | b] = ${augText(start, n)}`);
+  const { M, pivotCols } = reduceRows(start, n, (op, now)=>s.push(`${op}: ${augText(now, n)}`));
+  const bad = M.findIndex(row=>row.slice(0,n).every(ratIsZero) && !ratIsZero(row[n]));
+  if(bad>=0){
+    s.push(`R${bad+1} reads 0 = ${ratToText(M[bad][n])}, which is impossible.`);
+    s.push("Solution: none — the equations contradict each other.");
+    return s;
+  }
+  if(pivotCols.length===n){
+    s.push("This is reduced row echelon form [I | X]: each row gives one variable.");
+    s.push(solutionLine(vars, M.slice(0, n).map(row=>row[n])));
+    return s;
+  }
+  s.push(`No pivot in the ${vars.filter((_,i)=>!pivotCols.includes(i)).join(", ")} column, so ${pivotCols.length===n-1 ? "that variable is" : "those variables are"} free.`);
+  s.push(`Solution: ${solutionText(prob)} — infinitely many.`);
+  return s;
+}
+
+/** RREF answers: each entry of the typed matrix against the reduced [A | b]; `wrong` holds the keys that differ. */
+export function gradeRref(p: Problem, answer: Record<string,string>): Grade | { error: string } {
+  const n = p.variables.length, { M } = reduceRows(augmented(p.eqs, n), n);
+  const wrong: string[] = [];
+  for(const [i, row] of M.entries()) for(const [j, v] of row.entries()){
+    const typed = parseAnswer(answer[rrefKey(i, j)] ?? "");
+    if("error" in typed) return { error: `Row ${i+1}, column ${j+1}: ${typed.error}` };
+    if(!ratEq(typed.value.c, v)) wrong.push(rrefKey(i, j));
+  }
+  const ok = wrong.length===0;
+  return {
+    ok, residuals: [], wrong,
+    feedback: ok ? [] : [`${wrong.length} of ${M.length*(n+1)} entries differ from the reduced matrix; the highlighted ones are wrong.`],
+    correctText: ok ? "" : `RREF ${augText(M, n)}, so ${solutionText(p)}`,
+  };
+}
+
+function stepsFor(prob: Problem, method: SolveMethod){
+  switch(method){
+    case "substitution": return substitutionSteps(prob);
+    case "cramer": return cramerSteps(prob);
+    case "inverse": return inverseSteps(prob);
+    case "gauss-jordan": return rowReductionSteps(prob);
+    default: return prob.mode==="2x2"? worked2x2(prob) : worked3x3(prob);
+  }
+}
+
+/** Steps for the Feedback panel; in classify sessions they first settle which case the system is. */
+export function explainSteps(prob: Problem, method: SolveMethod){
+  if(prob.curve) return nonlinearSteps(prob);
+  if(prob.kind===undefined) return stepsFor(prob, method);
+  const A = prob.eqs.map(e=>[e.a,e.b,e.c].slice(0, prob.variables.length)), D = detN(A);
+  if(D!==0) return [`det A = ${detWorking(A)} = ${D} ≠ 0, so there is exactly one solution.`, ...stepsFor(prob, method)];
+  return [`det A = ${detWorking(A)} = 0, so there is no single solution; row-reduce to tell "none" from "infinitely many".`, ...(method==="gauss-jordan" ? rowReductionSteps(prob) : classifySteps(prob))];
+}
+
+/** Fastest route for this particular system: a ±1 coefficient favours substitution, awkward 2×2 multiples favour Cramer. */
+export function recommendMethod(prob: Problem): { method: SolveMethod; reason: string } {
+  const vars = prob.variables, n = vars.length;
+  if(prob.curve) return { method:"substitution", reason:"Substituting the line into the curve leaves a single quadratic." };
+  if(prob.kind!==undefined && prob.kind!=="unique") return { method:"elimination", reason:"Only row reduction tells an inconsistent system from a dependent one." };
+  for(const [i,e] of prob.eqs.entries()){
+    const ks = [e.a,e.b,e.c].slice(0,n); const j = ks.findIndex(k=>Math.abs(k)===1);
+    if(j>=0) return { method:"substitution", reason:`Eq(${i+1}) has coefficient ${ks[j]} on ${vars[j]}, so it isolates without fractions.` };
+  }
+  if(n===2){
+    const [e1,e2] = prob.eqs;
+    const lines = (p: number, q: number)=> p!==0 && q!==0 && (p%q===0 || q%p===0);
+    if(!lines(e1.a,e2.a) && !lines(e1.b,e2.b)) return { method:"cramer", reason:"Both equations need scaling to eliminate either variable; three 2×2 determinants are quicker." };
+    return { method:"elimination", reason:"One equation only needs scaling once to cancel a variable." };
+  }
+  return { method:"elimination", reason:"Row reduction keeps every step in whole numbers." };
+}
+
+/** ===== Hints ===== */
+// Revealed one level at a time: the system in standard form, what to eliminate and how, then one value.
+export const HINT_LEVELS = 3;
+
+/** Column to eliminate first, as the worked steps do: the cheaper common multiple for 2×2, x for 3×3. */
+function hintColumn(prob: Problem){
+  const n = prob.variables.length, cols = Array.from({length: n}, (_,k)=>prob.eqs.map(e=>[e.a,e.b,e.c][k]).filter(v=>v!==0));
+  const cost = (c: number[]) => c.length<2 ? Infinity : n===3 ? 0 : lcm2(Math.abs(c[0]), Math.abs(c[1]));
+  return cols.reduce((best, c, k)=> cost(c)<cost(cols[best]) ? k : best, 0);
+}
+export function hintText(prob: Problem, level: number): string {
+  const vars = prob.variables, n = vars.length;
+  if(level===1){
+    if(prob.curve) return `Standard form: ${rowText([prob.eqs[0].a, prob.eqs[0].b, prob.eqs[0].d], vars)} and ${curveText(prob.curve, true)}`;
+    return `Standard form: ${prob.eqs.map((e,i)=>`Eq(${i+1}) ${rowText([...[e.a,e.b,e.c].slice(0,n), e.d], vars)}`).join(",  ")}`;
+  }
+  if(prob.curve){
+    const L = lineIntoCurve(prob.eqs[0], prob.curve);
+    if(level===2) return `Rearrange the line to ${L.u} = ${termsText([{k:L.alpha, v:""}, {k:L.beta, v:L.w}])} and substitute it into the curve.`;
+    const roots = quadRoots(L.A, L.B, L.C) ?? [];
+    return `That leaves ${termsText([{k:L.A, v:`${L.w}²`}, {k:L.B, v:L.w}, {k:L.C, v:""}])} = 0, ${roots.length>0 ? `so ${L.w} = ${roots.map(ratToText).join(" or ")}` : "which has no real roots"}.`;
+  }
+  const k = hintColumn(prob);
+  if(level===2){
+    const rows = prob.eqs.map((e,i)=>({ label:`Eq(${i+1})`, c:[e.a,e.b,e.c][k] })).filter(r=>r.c!==0);
+    if(rows.length<2) return "No two equations share a variable — solve each one for the variable it has.";
+    const pivot = rows.reduce((best,r)=> Math.abs(r.c)<Math.abs(best.c) ? r : best);
+    const tag = (label: string, m: number)=> m===1 ? label : `${label}×${m}`;
+    const ops = rows.filter(r=>r!==pivot).map(r=>{
+      const L = lcm2(Math.abs(pivot.c), Math.abs(r.c));
+      return `${tag(pivot.label, L/Math.abs(pivot.c))} ${Math.sign(pivot.c)===Math.sign(r.c) ? "-" : "+"} ${tag(r.label, L/Math.abs(r.c))}`;
+    });
+    return `Eliminate ${vars[k]}: ${ops.join(", then ")}.`;
+  }
+  const truth = analyzeSystem(prob.eqs, n);
+  if(truth.kind==="none") return "Row-reduce fully: a row ends up as 0 = c with c ≠ 0, so there is no solution.";
+  if(truth.kind==="infinite") return "Row-reduce fully: a row ends up as 0 = 0, so there are infinitely many solutions.";
+  const r = k===n-1 ? n-2 : n-1;
+  return `${vars[r]} = ${ratToText(truth.solution[r])}`;
+}
+
+/** ===== Review queue (spaced repetition) ===== */
+// Missed or skipped problems sit in box 0; each clean solve moves them up a box, a miss drops them back.
+export type ReviewItem = {
+  id: string;          // id of the problem that was first missed
+  problem: Problem;
+  box: number;         // index into REVIEW_INTERVALS_MIN
+  due: number;         // timestamp
+  addedAt: number;
+  lapses: number;
+};
+const REVIEW_INTERVALS_MIN = [10, 60*24, 3*60*24, 7*60*24, 16*60*24];
+const REVIEW_MIX_EVERY = 3;   // in mixed sessions, every 3rd problem is a due review if there is one
+export const dueReviews = (queue: ReviewItem[], now: number) => queue.filter(it=>it.due<=now).sort((a,b)=>a.due-b.due);
+export function scheduleMiss(queue: ReviewItem[], id: string, problem: Problem, now: number): ReviewItem[] {
+  const due = now + REVIEW_INTERVALS_MIN[0]*60_000;
+  const hit = queue.find(it=>it.id===id);
+  if(hit) return queue.map(it=> it===hit ? { ...it, box:0, due, lapses: it.lapses+1 } : it);
+  return [...queue, { id, problem, box:0, due, addedAt: now, lapses: 0 }];
+}
+export function schedulePass(queue: ReviewItem[], id: string, now: number): ReviewItem[] {
+  return queue.flatMap(it=>{
+    if(it.id!==id) return [it];
+    const box = it.box+1;
+    return box>=REVIEW_INTERVALS_MIN.length ? [] : [{ ...it, box, due: now + REVIEW_INTERVALS_MIN[box]*60_000 }];
+  });
+}
+/** The stored system again, or a fresh system with the same mode, difficulty and answer type. */
+function reviewProblem(item: ReviewItem, as: ReviewAs, rng: Rng): Problem {
+  const q = item.problem;
+  if(as==="same") return { ...q, id: `${q.id}_${Math.floor(rng()*36**4).toString(36)}` };
+  return genProblem(q.mode, q.difficulty, q.ansType, rng, undefined, q.kind!==undefined);
+}
+
+/** ===== Mistake diagnosis ===== */
+// Wrong values are replayed against common slips; each match names the slip in the feedback panel.
+export type MistakeKind = "swapped" | "sign" | "one-equation" | "moved-term" | "multiplier" | "wrong-case" | "missing-point" | "other";
+export const MISTAKE_LABEL: Record<MistakeKind, string> = {
+  swapped: "Values swapped", sign: "Sign flipped", "one-equation": "Fits only some equations", "moved-term": "Sign slip moving a term across =",
+  multiplier: "Elimination multiplier slip", "wrong-case": "Wrong number of solutions", "missing-point": "Missing or extra intersection", other: "Unclassified",
+};
+type Diagnosis = { kind: MistakeKind; detail: string };
+
+/** Coefficients [x, y, z, constant] on each side of a scrambled display line such as "- 3x + 2 = 5y - 4". */
+function displaySides(line: string): number[][] | null {
+  const sides = line.replace(/\s+/g, "").split("=");
+  if(sides.length!==2) return null;
+  return sides.map(side=>{
+    const out = [0, 0, 0, 0];
+    for(const m of side.matchAll(/([+-]?)(\d*)([xyz]?)/g)){
+      if(m[2]==="" && m[3]==="") continue;
+      out[m[3]==="" ? 3 : "xyz".indexOf(m[3])] += (m[1]==="-" ? -1 : 1) * (m[2]==="" ? 1 : Number(m[2]));
+    }
+    return out;
+  });
+}
+/** Factors that elimination would scale a row by: lcm(|p|, |q|)/|p| per column and pair of rows, plus the coefficients themselves. */
+function eliminationMultipliers(eqs: EquationStd[], n: number){
+  const cols = eqs.map(e=>[e.a, e.b, e.c].slice(0, n).map(Math.abs));
+  const out = new Set<number>();
+  for(let j=0; j<n; j++) for(const p of cols) for(const q of cols){
+    if(p[j]===0 || q[j]===0) continue;
+    out.add(lcm2(p[j], q[j])/p[j]); out.add(p[j]);
+  }
+  out.delete(1);
+  return [...out].sort((a,b)=>a-b);
+}
+const sameVals = (a: Rational[], b: Rational[]) => a.length===b.length && a.every((v,i)=>ratEq(v, b[i]));
+/** The unique solution of `eqs` if it equals `vals`. */
+const solvesTo = (eqs: EquationStd[], n: number, vals: Rational[]) => { const a = analyzeSystem(eqs, n); return a.kind==="unique" && sameVals(a.solution, vals); };
+
+function diagnoseLinear(p: Problem, vals: Rational[], sol: Rational[]): Diagnosis[] {
+  const vars = p.variables, n = vars.length, out: Diagnosis[] = [];
+  const wrong = vars.map((_,i)=>i).filter(i=>!ratEq(vals[i], sol[i]));
+  for(let i=0; i<n; i++) for(let j=i+1; j<n; j++){
+    const perm = sol.slice(); [perm[i], perm[j]] = [perm[j], perm[i]];
+    if(!ratEq(sol[i], sol[j]) && sameVals(vals, perm)) out.push({ kind:"swapped", detail:`${vars[i]} and ${vars[j]} are swapped.` });
+  }
+  if(wrong.length>0 && wrong.every(i=>ratEq(vals[i], ratNeg(sol[i])))) out.push({ kind:"sign", detail:`The sign of ${wrong.map(i=>vars[i]).join(" and ")} is flipped.` });
+
+  // a term carried across "=" without changing its sign shifts one coefficient by twice that term
+  const coef = (e: EquationStd)=> [e.a, e.b, e.c, e.d];
+  const withCoef = (e: EquationStd, j: number, v: number): EquationStd => { const c = coef(e); c[j===n ? 3 : j] = v; return { a:c[0], b:c[1], c:c[2], d:c[3] }; };
+  p.eqs.forEach((e,i)=>{
+    const sides = displaySides(p.display[i]); if(!sides) return;
+    const [L, R] = sides, term = (k: number, j: number)=> j===3 ? `${k}` : `${k===1 ? "" : k===-1 ? "-" : k}${vars[j]}`;
+    const tries: [number, number, string][] = [];
+    for(let j=0; j<n; j++){
+      if(R[j]!==0) tries.push([j, coef(e)[j] + 2*R[j], term(R[j], j)]);
+      if(L[j]!==0) tries.push([j, coef(e)[j] - 2*L[j], term(L[j], j)]);
+    }
+    if(L[3]!==0) tries.push([n, e.d + 2*L[3], term(L[3], 3)]);
+    if(R[3]!==0) tries.push([n, e.d - 2*R[3], term(R[3], 3)]);
+    const hit = tries.find(([j, v])=> solvesTo(p.eqs.map((f,k)=> k===i ? withCoef(f, j, v) : f), n, vals));
+    if(hit) out.push({ kind:"moved-term", detail:`In Eq(${i+1}), ${hit[2]} looks like it changed sides without changing sign.` });
+  });
+
+  // scaling a row for elimination but not its constant, or a value left multiplied by a coefficient
+  const ms = eliminationMultipliers(p.eqs, n);
+  const scaled = p.eqs.flatMap((_,i)=> ms.filter(m=> solvesTo(p.eqs.map((f,k)=> k===i ? { a:m*f.a, b:m*f.b, c:m*f.c, d:f.d } : f), n, vals)).map(m=>({ i, m })));
+  if(scaled.length>0) out.push({ kind:"multiplier", detail:`Eq(${scaled[0].i+1}) seems scaled by ${scaled[0].m} on the left only — multiply the constant too.` });
+  else if(wrong.length===1 && !ratIsZero(sol[wrong[0]]) && !ratIsZero(vals[wrong[0]])){
+    const i = wrong[0], f = ratDiv(vals[i], sol[i]), m = ms.find(m=> ratEq(ratAbs(f), rat(m)) || ratEq(ratAbs(f), rat(1, m)));
+    if(m!==undefined) out.push({ kind:"multiplier", detail:`${vars[i]} is off by a factor of ${ratToText(ratAbs(f))} — check the multiplier used when scaling or the final division.` });
+  }
+
+  const fits = p.eqs.map(e=>ratIsZero(residual(e, vals)));
+  if(fits.some(Boolean) && !fits.every(Boolean)){
+    out.push({ kind:"one-equation", detail:`Your values satisfy ${fits.flatMap((ok,i)=>ok ? [`Eq(${i+1})`] : []).join(" and ")} but not ${fits.flatMap((ok,i)=>ok ? [] : [`Eq(${i+1})`]).join(" and ")}.` });
+  }
+  return out.length>0 ? out : [{ kind:"other", detail:"No common slip matches — recheck the arithmetic one line at a time." }];
+}
+
+function diagnosePoints(p: Problem, pts: Rational[][], truth: Rational[][]): Diagnosis[] {
+  const out: Diagnosis[] = [], key = new Set(truth.map(pointText));
+  if(truth.length===0 && pts.length>0) return [{ kind:"wrong-case", detail:"The line misses the curve, so there are no real solutions." }];
+  if(pts.length===0) return [{ kind:"wrong-case", detail:"The line does meet the curve — check the sign of the discriminant." }];
+  for(const pt of pts){
+    if(key.has(pointText(pt))) continue;
+    const near = truth.find(t=> ratEq(pt[0], t[1]) && ratEq(pt[1], t[0]));
+    if(near) { out.push({ kind:"swapped", detail:`${pointText(pt)} has x and y swapped.` }); continue; }
+    const flip = truth.find(t=> (ratEq(pt[0], ratNeg(t[0])) && ratEq(pt[1], t[1])) || (ratEq(pt[0], t[0]) && ratEq(pt[1], ratNeg(t[1]))));
+    if(flip) { out.push({ kind:"sign", detail:`${pointText(pt)} has a sign flipped — compare with ${pointText(flip)}.` }); continue; }
+    const onLine = ratIsZero(residual(p.eqs[0], pt)), onCurve = ratIsZero(curveResidual(p.curve!, pt));
+    if(onLine!==onCurve) out.push({ kind:"one-equation", detail:`${pointText(pt)} lies on the ${onLine ? "line" : "curve"} but not the ${onLine ? "curve" : "line"} — substitute back into ${onLine ? "the line" : "Eq(1)"} after solving.` });
+  }
+  const hits = pts.filter(pt=>key.has(pointText(pt))).length;
+  if(hits===pts.length && hits<truth.length) out.push({ kind:"missing-point", detail:"Each root of the quadratic gives its own point — one is missing." });
+  return out.length>0 ? out : [{ kind:"other", detail:"No common slip matches — recheck the substitution and the quadratic." }];
+}
+export const countMistakes = (lists: (MistakeKind[] | undefined)[]) => lists.flat().reduce<Partial<Record<MistakeKind, number>>>((acc, k)=>{ if(k) acc[k] = (acc[k] ?? 0) + 1; return acc; }, {});
+
+/** ===== Answer checking ===== */
+type Grade = { ok: boolean; residuals: string[]; feedback: string[]; correctText: string; unsimplified?: boolean; mistakes?: Diagnosis[]; wrong?: string[] };   // wrong: RREF entries that differ
+const answerValue = (txt: string) => { const r = parseAnswer(txt); return "value" in r ? r.value.c : null; };
+/**
+ * Checks a submitted answer exactly; `claim` is the case picked in classify sessions, or "none" for a
+ * line missing a curve. With `lowestTerms`, right values that are not fully simplified do not pass.
+ */
+export function gradeAnswer(p: Problem, answer: Record<string,string>, claim: SystemKind | null, lowestTerms = false): Grade | { error: string } {
+  const g = gradeValues(p, answer, claim);
+  if("error" in g) return g;
+  if(g.mistakes) return { ...g, feedback: [...g.mistakes.map(m=>`Likely mistake — ${m.detail}`), ...g.feedback] };
+  if(!g.ok || !lowestTerms || (claim!==null && claim!=="unique")) return g;
+  const loose = Object.entries(answer).filter(([k,t])=>k!=="kind" && t.trim()!=="" && !inLowestTerms(t));
+  if(loose.length===0) return g;
+  return { ...g, ok: false, unsimplified: true, correctText: solutionText(p),
+    feedback: [`Correct but not simplified: ${loose.map(([k,t])=>`${k[0]} = ${t.trim()} is ${ratToText(answerValue(t)!)}`).join(", ")}.`] };
+}
+function gradeValues(p: Problem, answer: Record<string,string>, claim: SystemKind | null): Grade | { error: string } {
+  if(p.curve){
+    // pairs may come in any order; blank rows are ignored
+    const truth = intersections(p.eqs[0], p.curve) ?? [];
+    const rows = PAIR_KEYS.map(([kx,ky])=>[answer[kx] ?? "", answer[ky] ?? ""]).filter(r=>r.some(t=>t.trim()!==""));
+    if(claim!=="none" && (rows.length===0 || rows.some(r=>r.some(t=>!answerValue(t))))) return { error: "Enter each intersection as a full (x, y) pair, or choose “No real solutions”." };
+    const pts = claim==="none" ? [] : rows.map(r=>r.map(t=>answerValue(t)!));
+    const want = new Set(truth.map(pointText)), got = new Set(pts.map(pointText));
+    const hits = [...got].filter(t=>want.has(t)).length;
+    const ok = hits===want.size && got.size===want.size && pts.length===got.size;
+    const residuals = pts.length===0 ? [] : [pts.map(pt=>ratToText(residual(p.eqs[0], pt))).join(" / "), pts.map(pt=>ratToText(curveResidual(p.curve!, pt))).join(" / ")];
+    const feedback: string[] = [];
+    const mistakes = ok ? undefined : diagnosePoints(p, pts, truth);
+    if(!ok){
+      if(claim==="none") feedback.push("The line does meet the curve — check the discriminant again.");
+      else feedback.push(`Residuals at ${pts.map(pointText).join(" / ")}: ${residuals.map((r,i)=>`Eq(${i+1}) ${r}`).join(", ")}`);
+      if(claim!=="none" && hits===got.size && hits<want.size) feedback.push(`Those are right, but there ${want.size===2 ? "are two intersection points" : "is only one"}.`);
+      if(pts.length>got.size) feedback.push("The same point is entered twice.");
+    }
+    return { ok, residuals, feedback, correctText: ok ? "" : solutionText(p), mistakes };
+  }
+
+  const classifying = p.kind!==undefined;
+  const said: SystemKind = claim ?? "unique";
+  const truth = analyzeSystem(p.eqs, p.variables.length);
+  if(!classifying && truth.kind!=="unique") return { error: "Singular system — generate a new one." };
+
+  let ok: boolean, residuals: string[] = [], mistakes: Diagnosis[] | undefined;
+  const feedback: string[] = [];
+  if(said!==truth.kind){
+    ok = false;
+    mistakes = [{ kind:"wrong-case", detail:`You said ${KIND_LABEL[said].toLowerCase()}; the system has ${KIND_LABEL[truth.kind].toLowerCase()}.` }];
+    feedback.push(truth.kind==="unique" ? "det A ≠ 0, so the system has exactly one solution."
+      : said==="unique" ? "det A = 0, so there is no single solution."
+      : "Row-reduce all the way: a leftover row 0 = c with c ≠ 0 means none, 0 = 0 means infinitely many.");
+  } else if(truth.kind==="unique"){
+    const vals = p.variables.map(v => answerValue(answer[v]??"") ?? RZERO);
+    ok = vals.every((v,i)=>ratEq(v, truth.solution[i]));
+    residuals = p.eqs.map(e=>ratToText(residual(e, vals)));
+    if(!ok){ mistakes = diagnoseLinear(p, vals, truth.solution); feedback.push(`Residuals: ${residuals.map((r,i)=>`Eq(${i+1}) ${r}`).join(", ")}`); }
+  } else if(truth.kind==="infinite"){
+    // c + k·t solves every equation for all t exactly when A·c = d and A·k = 0; k ≠ 0 makes it the whole line
+    const forms = p.variables.map(v => { const r = parseAnswer(answer[v]??"", true); return "value" in r ? r.value : { c: RZERO, k: RZERO }; });
+    const rc = p.eqs.map(e=>residual(e, forms.map(f=>f.c))), rk = p.eqs.map(e=>residual({ ...e, d: 0 }, forms.map(f=>f.k)));
+    const moving = forms.some(f=>!ratIsZero(f.k));
+    ok = moving && rc.every(ratIsZero) && rk.every(ratIsZero);
+    residuals = rc.map((r,i)=>paramText({ c: r, k: rk[i] }));
+    if(!moving) feedback.push("Your answer has no t in it, so it is one point rather than the whole family.");
+    else if(!ok) feedback.push(`Residuals: ${residuals.map((r,i)=>`Eq(${i+1}) ${r}`).join(", ")}`);
+  } else ok = true;
+  return { ok, residuals, feedback, mistakes, correctText: ok ? "" : `${classifying ? `${KIND_LABEL[truth.kind]}: ` : ""}${solutionText(p)}` };
+}
+
+/** ===== Scratchpad (row operations) ===== */
+// The learner builds rows R1, R2, … one operation at a time and types each resulting equation. A step is
+// valid when the typed equation is what the operation gives; a rearranged display line may also be scaled.
+export type ScratchOp =
+  | { op: "rearrange"; eq: number }                            // display line eq in standard form
+  | { op: "scale"; row: number; k: string }                    // k × R
+  | { op: "combine"; row: number; k: string; other: number }   // R + k × other
+  | { op: "substitute"; row: number; from: number };           // `from` reads v = value: put it into R
+export type ScratchStep = ScratchOp & { typed: string };
+export type ScratchSummary = { steps: number; route: number; firstInvalid?: number };   // route: operations on the worked route
+export type StepCheck = { ok: boolean; note: string; row: Rational[] | null };   // row: the typed equation as [...coefficients, rhs]
+export const SCRATCH_OP_LABEL: Record<ScratchOp["op"], string> = { rearrange:"Rearrange", scale:"Scale", combine:"Add a multiple", substitute:"Substitute" };
+
+/** A linear equation in the problem's variables, e.g. "3x - (1/2)y = 4" or "8x + 32 = 14", as [...coefficients, rhs]. */
+export function parseLinearEq(text: string, vars: readonly string[]): Rational[] | null {
+  const sides = text.replace(/[−–]/g, "-").replace(/\s+/g, "").replace(/\+-|-\+/g, "-").replace(/--/g, "+").split("=");
+  if(sides.length!==2 || sides.some(t=>t==="")) return null;
+  const out = Array.from({length: vars.length+1}, ()=>RZERO);
+  for(const [si, side] of sides.entries()){
+    const terms = side.match(/[+-]?[^+-]+/g);
+    if(!terms || terms.join("")!==side) return null;
+    for(const term of terms){
+      const m = /^([+-]?)\(?([\d./]*)\)?\*?([a-z]?)$/.exec(term);
+      if(!m || (m[2]==="" && m[3]==="")) return null;
+      const k = m[2]==="" ? rat(1) : parseRational(m[2]), col = m[3]==="" ? vars.length : vars.indexOf(m[3]);
+      if(!k || col<0) return null;
+      const signed = m[1]==="-" ? ratNeg(k) : k;
+      // variables gather on the left, constants on the right
+      out[col] = (col<vars.length)===(si===0) ? ratAdd(out[col], signed) : ratSub(out[col], signed);
+    }
+  }
+  return out;
+}
+export const scratchRowText = (r: Rational[], vars: readonly string[]) => `${termsText(r.slice(0,-1).map((k,i)=>({k, v:vars[i]})))} = ${ratToText(r[r.length-1])}`;
+export const scratchOpText = (op: ScratchOp) =>
+  op.op==="rearrange" ? `Eq(${op.eq+1}) in standard form`
+  : op.op==="scale" ? `${op.k} × R${op.row+1}`
+  : op.op==="combine" ? `R${op.row+1} + (${op.k}) × R${op.other+1}`
+  : `R${op.from+1} into R${op.row+1}`;
+/** The single variable a row still has, as [column, value], when it reads k·v = c. */
+function rowValue(r: Rational[]): [number, Rational] | null {
+  const cols = r.slice(0,-1).flatMap((v,i)=>ratIsZero(v) ? [] : [i]);
+  return cols.length===1 ? [cols[0], ratDiv(r[r.length-1], r[cols[0]])] : null;
+}
+const rowProportional = (r: Rational[], o: Rational[]) => {
+  const i = o.findIndex(v=>!ratIsZero(v));
+  return i>=0 && !ratIsZero(r[i]) && r.every((v,j)=>ratEq(ratMul(v, o[i]), ratMul(o[j], r[i])));
+};
+
+/** What an operation gives from the rows so far, or why it cannot be applied. */
+function scratchExpected(p: Problem, op: ScratchOp, rows: (Rational[] | null)[]): Rational[] | string {
+  const n = p.variables.length;
+  if(op.op==="rearrange"){
+    const e = p.eqs[op.eq];
+    return e ? [...[e.a, e.b, e.c].slice(0, n), e.d].map(v=>rat(v)) : `there is no Eq(${op.eq+1})`;
+  }
+  const r = rows[op.row];
+  if(r===undefined) return `there is no R${op.row+1} yet`;
+  if(r===null) return `R${op.row+1} could not be read`;
+  if(op.op==="substitute"){
+    const from = op.from===op.row ? null : rows[op.from], known = from ? rowValue(from) : null;
+    if(!known) return `R${op.from+1} does not give the value of one variable`;
+    const [col, val] = known;
+    return r.map((v,i)=>i===col ? RZERO : i===n ? ratSub(v, ratMul(r[col], val)) : v);
+  }
+  const k = parseRational(op.k);
+  if(!k) return `${op.k.trim() || "the multiplier"} is not a number`;
+  if(op.op==="scale") return ratIsZero(k) ? "scaling by 0 loses the equation" : r.map(v=>ratMul(k, v));
+  const o = rows[op.other];
+  if(!o || op.other===op.row) return `R${op.other+1} cannot be added to R${op.row+1}`;
+  return r.map((v,i)=>ratAdd(v, ratMul(k, o[i])));
+}
+
+/**
+ * Checks each step against the rows before it. Later steps build on what was typed, so one slip is
+ * flagged once rather than cascading; `values` is set when valid rows before the first invalid step
+ * pin down every variable (as answer text).
+ */
+export function checkScratch(p: Problem, steps: ScratchStep[]){
+  const vars = p.variables, rows: (Rational[] | null)[] = [];
+  const checks: StepCheck[] = steps.map(st=>{
+    const want = scratchExpected(p, st, rows), got = parseLinearEq(st.typed, vars);
+    rows.push(got);
+    if(!got) return { ok: false, note: `Type the resulting equation in ${vars.join(", ")}, e.g. ${vars.map((v,i)=>`${i+2}${v}`).join(" + ")} = 7.`, row: null };
+    if(typeof want==="string") return { ok: false, note: `Cannot apply: ${want}.`, row: got };
+    if(got.every((v,i)=>ratEq(v, want[i])) || (st.op==="rearrange" && rowProportional(got, want))) return { ok: true, note: "", row: got };
+    return { ok: false, note: `${scratchOpText(st)} gives ${scratchRowText(want, vars)}.`, row: got };
+  });
+  const bad = checks.findIndex(c=>!c.ok), firstInvalid = bad<0 ? null : bad;
+  const known = new Map<number, Rational>();
+  for(const c of checks.slice(0, firstInvalid ?? checks.length)){ const kv = c.row && rowValue(c.row); if(kv) known.set(kv[0], kv[1]); }
+  const values = known.size===vars.length ? vars.map((_,i)=>ratToText(known.get(i)!)) : null;
+  return { checks, firstInvalid, values };
+}
+/** The worked elimination (worked2x2 / worked3x3) as scratchpad operations, starting from the display lines. */
+export function workedRoute(p: Problem): RouteOp[] {
+  const route: RouteOp[] = p.eqs.map(()=>"rearrange");
+  if(p.mode==="2x2") worked2x2(p, route); else worked3x3(p, route);
+  return route;
+}
+
+/** ===== Self-checks ===== */
+/**
+ * Everything wrong with a generated problem. A linear system must be the case it claims (unique unless
+ * classifying), with the stored solution, each display line a rearrangement of its equation, and whole
+ * values in integer problems. A line and curve must meet in rational points that lie on both graphs.
+ */
+export function problemFaults(p: Problem): string[] {
+  const faults: string[] = [];
+  const whole = (vals: Rational[]) => vals.every(v=>v.d===1n);
+  p.eqs.forEach((e,i)=>{
+    const sides = displaySides(p.display[i] ?? "");
+    if(!sides || sides[0].some((v,j)=>v - sides[1][j]!==[e.a, e.b, e.c, -e.d][j])) faults.push(`display line ${i+1} is not Eq(${i+1})`);
+  });
+  if(p.curve){
+    const pts = intersections(p.eqs[0], p.curve);
+    if(!pts) return [...faults, "the intersections are irrational"];
+    if(pts.some(pt=>!ratIsZero(residual(p.eqs[0], pt)) || !ratIsZero(curveResidual(p.curve!, pt)))) faults.push("an intersection is off one of the graphs");
+    if(p.ansType==="integers" && !pts.every(whole)) faults.push("fractional intersection in an integer problem");
+    return faults;
+  }
+  const a = analyzeSystem(p.eqs, p.variables.length), want = p.kind ?? "unique";
+  if(a.kind!==want) faults.push(`expected ${KIND_LABEL[want].toLowerCase()} solutions, found ${KIND_LABEL[a.kind].toLowerCase()}`);
+  else if(a.kind==="unique"){
+    if(!sameVals(a.solution, p.solution)) faults.push(`stored solution ${p.solution.map(ratToText).join(", ")} is not ${a.solution.map(ratToText).join(", ")}`);
+    if(p.ansType==="integers" && !whole(a.solution)) faults.push("fractional solution in an integer problem");
+  }
+  return faults;
+}
+
+/** ===== Problem files ===== */
+// Problems hold bigint rationals, so they go through JSON as "p/q" strings. Anything read back
+// (from storage, an import or a CLI input file) is shape-checked with these specs first.
+export type StoredProblem = Omit<Problem, "solution"> & { solution: string[] };
+export const problemToJSON = (p: Problem): StoredProblem => ({ ...p, solution: p.solution.map(ratToText) });
+export const problemFromJSON = (p: StoredProblem): Problem => ({ ...p, solution: p.solution.map(t=>parseRational(t) ?? RZERO) });
+
+export type Spec = Record<string, [test: (v: unknown)=>boolean, what: string, optional?: boolean]>;
+export const isObj = (v: unknown): v is Record<string, unknown> => typeof v==="object" && v!==null && !Array.isArray(v);
+export const isStr = (v: unknown): v is string => typeof v==="string";
+export const isNum = (v: unknown): v is number => typeof v==="number" && Number.isFinite(v);
+export const isBool = (v: unknown): v is boolean => typeof v==="boolean";
+export const isList = (item: (v: unknown)=>boolean) => (v: unknown) => Array.isArray(v) && v.every(item);
+export const oneOf = (opts: readonly string[]) => (v: unknown) => typeof v==="string" && opts.includes(v);
+export const MODES = Object.keys(MODE_LABEL), DIFFICULTIES = ["easy","medium","hard"] as const, ANSWER_TYPES = ["integers","fractions"] as const;
+
+export function checkShape(errs: string[], path: string, raw: unknown, spec: Spec): raw is Record<string, unknown> {
+  if(!isObj(raw)){ errs.push(`${path}: expected an object`); return false; }
+  const before = errs.length;
+  for(const [k,[test,what,optional]] of Object.entries(spec)){
+    if(raw[k]===undefined && optional) continue;
+    if(!test(raw[k])) errs.push(`${path}.${k}: expected ${what}`);
+  }
+  return errs.length===before;
+}
+const isCurve = (v: unknown) => isObj(v) && (v.type==="parabola" ? [v.a, v.b, v.c].every(isNum) : v.type==="circle" && [v.h, v.k, v.r2].every(isNum));
+const EQUATION_SPEC: Spec = { a:[isNum,"a number"], b:[isNum,"a number"], c:[isNum,"a number"], d:[isNum,"a number"] };
+const PROBLEM_SPEC: Spec = {
+  id:[isStr,"a string"], mode:[oneOf(MODES),"a known mode"], variables:[isList(oneOf(["x","y","z"])),"a list of variables"], eqs:[Array.isArray,"a list of equations"],
+  display:[isList(isStr),"a list of strings"], solution:[isList(v=>isStr(v) && parseRational(v)!==null),"a list of fractions"],
+  difficulty:[oneOf(DIFFICULTIES),"easy, medium or hard",true], ansType:[oneOf(ANSWER_TYPES),"integers or fractions",true],
+  kind:[oneOf(["unique","none","infinite"]),"unique, none or infinite",true], curve:[isCurve,"a parabola or circle",true],
+};
+
+export function readStoredProblem(errs: string[], path: string, raw: unknown, fallback: Pick<Problem,"difficulty"|"ansType">): StoredProblem | null {
+  if(!checkShape(errs, path, raw, PROBLEM_SPEC)) return null;
+  const eqsOk = (raw.eqs as unknown[]).every((e,i)=>checkShape(errs, `${path}.eqs[${i}]`, e, EQUATION_SPEC));
+  return eqsOk ? { ...fallback, ...(raw as unknown as StoredProblem) } : null;
+}